@@ -1,18 +1,264 @@
-export type AreaConfig = {
-  areaId: string;
-};
-
-export const dashboardConfigs: AreaConfig[] = [
-  {
-    areaId: "living_room",
-  },
-  {
-    areaId: "kitchen",
-  },
-  {
-    areaId: "bedroom",
-  },
-  {
-    areaId: "office",
-  },
-];
+import { readFileSync, watch } from "node:fs";
+import { basename, dirname, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+const areaConfigSchema = z
+  .object({
+    areaId: z.string().min(1),
+    displayName: z.string().min(1).optional(), // replaces the Home Assistant name, which then still works as an alias
+    aliases: z.array(z.string().min(1)).default([]), // on top of the area's aliases in Home Assistant
+    defaultBrightness: z.number().int().min(1).max(100).optional(), // percentage lights turn on at
+  })
+  .strict();
+
+const lightGroupConfigSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+    name: z.string().min(1),
+    aliases: z.array(z.string().min(1)).default([]),
+    entityIds: z
+      .array(z.string().regex(/^light\.\w+$/, "Expected a light entity ID"))
+      .min(1),
+  })
+  .strict();
+
+// Exact entity IDs or every entity of a domain, e.g. lock.*
+const entityPatternSchema = z
+  .string()
+  .regex(/^[a-z_]+\.(\*|\w+)$/, "Expected an entity ID or domain.*");
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time like 22:00");
+
+const policyConfigSchema = z
+  .object({
+    readOnly: z.boolean().default(false),
+    allowAreas: z.array(z.string().min(1)).optional(), // defaults to the exposed areas
+    denyAreas: z.array(z.string().min(1)).default([]),
+    allowEntities: z.array(entityPatternSchema).optional(), // leave out to allow every entity
+    denyEntities: z.array(entityPatternSchema).default([]),
+    quietHours: z
+      .object({
+        start: timeSchema,
+        end: timeSchema, // may be on the next day, e.g. 22:00 to 07:00
+        allowActions: z.array(z.string().min(1)).default(["turn_off"]),
+      })
+      .strict()
+      .optional(),
+    maxEntitiesPerCall: z.number().int().min(1).optional(),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    areas: z.array(areaConfigSchema).optional(), // leave out to expose every area
+    lightGroups: z.array(lightGroupConfigSchema).default([]),
+    policy: policyConfigSchema.default({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const checkUnique = (ids: string[], path: string) => {
+      ids.forEach((id, index) => {
+        if (ids.indexOf(id) !== index) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate ${id}`,
+            path: [path, index],
+          });
+        }
+      });
+    };
+    checkUnique(config.areas?.map((area) => area.areaId) ?? [], "areas");
+    checkUnique(
+      config.lightGroups.map((group) => group.id),
+      "lightGroups",
+    );
+  });
+
+export type Config = z.infer<typeof configSchema>;
+export type AreaConfig = z.infer<typeof areaConfigSchema>;
+export type LightGroupConfig = z.infer<typeof lightGroupConfigSchema>;
+export type PolicyConfig = z.infer<typeof policyConfigSchema>;
+
+/**
+ * Used when no config file is given: every area is exposed under its Home Assistant name
+ */
+export function getDefaultConfig(): Config {
+  return configSchema.parse({});
+}
+
+/**
+ * Reads the path from the --config flag, falling back to the HOME_ASSISTANT_CONFIG_PATH environment variable
+ */
+export function getConfigPath(
+  args = process.argv.slice(2),
+  env = process.env,
+): string | null {
+  const { values } = parseArgs({
+    args,
+    options: { config: { type: "string" } },
+    strict: false,
+  });
+  const path = values.config ?? env.HOME_ASSISTANT_CONFIG_PATH;
+  return typeof path === "string" && path ? path : null;
+}
+
+/**
+ * Reads the path of the scheduled actions file from the --schedule flag, falling back to the
+ * HOME_ASSISTANT_SCHEDULE_PATH environment variable and then to defaultPath
+ */
+export function getSchedulePath(
+  defaultPath: string,
+  args = process.argv.slice(2),
+  env = process.env,
+): string {
+  const { values } = parseArgs({
+    args,
+    options: { schedule: { type: "string" } },
+    strict: false,
+  });
+  const path = values.schedule ?? env.HOME_ASSISTANT_SCHEDULE_PATH;
+  return typeof path === "string" && path ? path : defaultPath;
+}
+
+/**
+ * Reads the path of the saved scenes file from the --scenes flag, falling back to the
+ * HOME_ASSISTANT_SCENES_PATH environment variable and then to defaultPath
+ */
+export function getScenesPath(
+  defaultPath: string,
+  args = process.argv.slice(2),
+  env = process.env,
+): string {
+  const { values } = parseArgs({
+    args,
+    options: { scenes: { type: "string" } },
+    strict: false,
+  });
+  const path = values.scenes ?? env.HOME_ASSISTANT_SCENES_PATH;
+  return typeof path === "string" && path ? path : defaultPath;
+}
+
+/**
+ * Reads the path of the MCP client token store from the --tokens flag, falling back to the
+ * HOME_ASSISTANT_MCP_TOKENS_PATH environment variable and then to defaultPath
+ */
+export function getTokenStorePath(
+  defaultPath: string,
+  args = process.argv.slice(2),
+  env = process.env,
+): string {
+  const { values } = parseArgs({
+    args,
+    options: { tokens: { type: "string" } },
+    strict: false,
+  });
+  const path = values.tokens ?? env.HOME_ASSISTANT_MCP_TOKENS_PATH;
+  return typeof path === "string" && path ? path : defaultPath;
+}
+
+/**
+ * Reads the --dry-run flag, falling back to the HOME_ASSISTANT_DRY_RUN environment variable
+ */
+export function isDryRunEnabled(
+  args = process.argv.slice(2),
+  env = process.env,
+): boolean {
+  const { values } = parseArgs({
+    args,
+    options: { "dry-run": { type: "boolean" } },
+    strict: false,
+  });
+  return values["dry-run"] === true || env.HOME_ASSISTANT_DRY_RUN === "true";
+}
+
+/**
+ * Reads how MCP clients connect from the --http and --port flags, falling back to the HOME_ASSISTANT_MCP_TRANSPORT
+ * and HOME_ASSISTANT_MCP_PORT environment variables. Defaults to stdio, and to port 3000 over HTTP.
+ */
+export function getTransportOptions(
+  args = process.argv.slice(2),
+  env = process.env,
+): { transport: "stdio" | "http"; port: number } {
+  const { values } = parseArgs({
+    args,
+    options: { http: { type: "boolean" }, port: { type: "string" } },
+    strict: false,
+  });
+  const isHttp =
+    values.http === true || env.HOME_ASSISTANT_MCP_TRANSPORT === "http";
+  const port = values.port ?? env.HOME_ASSISTANT_MCP_PORT;
+  const portNumber = typeof port === "string" && port ? Number(port) : 3000;
+  if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+    throw new Error(`Invalid port ${port}, expected a number from 1 to 65535`);
+  }
+  return { transport: isHttp ? "http" : "stdio", port: portNumber };
+}
+
+/**
+ * @param path - .yaml and .yml files are parsed as YAML, anything else as JSON
+ */
+export function parseConfig(text: string, path: string): Config {
+  let raw: unknown;
+  try {
+    raw = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? parseYaml(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid config ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const result = configSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    );
+    throw new Error(`Invalid config ${path}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+export function loadConfig(path: string): Config {
+  return parseConfig(readFileSync(path, "utf8"), path);
+}
+
+/**
+ * Calls onChange with the reloaded config whenever the file changes. An invalid file is reported and
+ * the previous config stays in use. Watches the directory, editors often replace the file on save.
+ * @returns {() => void} stops watching
+ */
+export function watchConfig(path: string, onChange: (config: Config) => void) {
+  let reloadTimeout: ReturnType<typeof setTimeout> | null = null;
+  const watcher = watch(dirname(path), (_, filename) => {
+    if (filename !== basename(path)) {
+      return;
+    }
+    // Saving fires several events in a row
+    if (reloadTimeout) {
+      clearTimeout(reloadTimeout);
+    }
+    reloadTimeout = setTimeout(() => {
+      reloadTimeout = null;
+      try {
+        onChange(loadConfig(path));
+      } catch (error) {
+        console.error(
+          "Keeping the previous config:",
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }, 100);
+  });
+  return () => {
+    if (reloadTimeout) {
+      clearTimeout(reloadTimeout);
+    }
+    watcher.close();
+  };
+}
@@ -0,0 +1,180 @@
+/* Records the commands the DataManager sends, grouped by the tool call or subsystem that asked, so they can be listed and undone */
+import { AsyncLocalStorage } from "node:async_hooks";
+import type {
+  HassServiceCall,
+  HassServiceCallResult,
+} from "../hass-ws-client/client";
+import type { LightSnapshot } from "./data";
+
+export type JournalCommand = HassServiceCall & {
+  entityIds: string[]; // the entities the command targeted
+  error: string | null; // null if Home Assistant accepted the command
+  superseded: boolean; // never sent, a later command of the same entry to the same target replaced it
+};
+
+export type JournalEntry = {
+  id: number;
+  source: string; // who or what asked, e.g. the control_light tool or the scheduler
+  clientId: string | null; // the authenticated client it was done for, null for local use
+  startedAt: Date;
+  commands: JournalCommand[];
+  previousLights: LightSnapshot[]; // every affected light before the entry's first command to it
+  outcome: "succeeded" | "partially_failed" | "failed";
+  undoOf: number | null; // the entry this one undid
+  undoneBy: number | null; // the entry that undid this one
+};
+
+/**
+ * The entry commands are added to, created with the first command so calls that only read leave no entry
+ */
+type JournalScope = {
+  source: string;
+  clientId: string | null;
+  undoOf: number | null;
+  entry: JournalEntry | null;
+};
+
+function getOutcome(commands: JournalCommand[]): JournalEntry["outcome"] {
+  // The command that replaced a superseded one decides for both
+  const sent = commands.filter((command) => !command.superseded);
+  const failed = sent.filter((command) => command.error !== null);
+  if (failed.length === 0) {
+    return "succeeded";
+  }
+  return failed.length === sent.length ? "failed" : "partially_failed";
+}
+
+export class ActionJournal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+  private maxEntries: number;
+  private scope = new AsyncLocalStorage<JournalScope>();
+
+  /**
+   * @param maxEntries - older entries are dropped
+   */
+  constructor({ maxEntries = 50 } = {}) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Records every command sent while run is running, including from nested async calls, as one entry
+   * @param undoOf - the entry run undoes, it is marked as undone once a command is sent
+   * @param clientId - defaults to the client of the entry run is nested in
+   */
+  run<T>(
+    source: string,
+    run: () => T,
+    {
+      undoOf = null,
+      clientId = this.scope.getStore()?.clientId ?? null,
+    }: { undoOf?: number | null; clientId?: string | null } = {},
+  ): T {
+    return this.scope.run({ source, clientId, undoOf, entry: null }, run);
+  }
+
+  /**
+   * @returns {object | null} identifies the current run() call, e.g. so only its own service calls are merged
+   */
+  getCaller(): object | null {
+    return this.scope.getStore() ?? null;
+  }
+
+  /**
+   * Adds a command to the current entry, or to a new one if it was sent outside run()
+   * @param previousLights - the targeted lights right before the command
+   * @returns the result of send
+   */
+  async record<T extends HassServiceCallResult>(
+    call: HassServiceCall,
+    entityIds: string[],
+    previousLights: LightSnapshot[],
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const entry = this.getScopeEntry(this.scope.getStore());
+    for (const snapshot of previousLights) {
+      // The state before the entry's first command to the light is the one to go back to
+      if (!entry.previousLights.some((l) => l.entityId === snapshot.entityId)) {
+        entry.previousLights.push(snapshot);
+      }
+    }
+    const command: JournalCommand = {
+      ...call,
+      entityIds,
+      error: null,
+      superseded: false,
+    };
+    entry.commands.push(command);
+    try {
+      const result = await send();
+      command.superseded = result.superseded === true;
+      return result;
+    } catch (error) {
+      command.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      entry.outcome = getOutcome(entry.commands);
+    }
+  }
+
+  /**
+   * @param matches - only entries it returns true for, e.g. the ones the caller may see
+   * @returns {JournalEntry[]} the most recent entries, newest first
+   */
+  getRecentEntries(
+    limit = 10,
+    matches: (entry: JournalEntry) => boolean = () => true,
+  ): JournalEntry[] {
+    return this.entries.filter(matches).slice(-limit).reverse();
+  }
+
+  /**
+   * @param matches - only entries it returns true for, e.g. the ones the caller may see
+   * @returns {JournalEntry | null} the newest entry that changed lights and hasn't been undone
+   */
+  getLastUndoableEntry(
+    matches: (entry: JournalEntry) => boolean = () => true,
+  ): JournalEntry | null {
+    return (
+      this.entries.findLast(
+        (entry) =>
+          entry.undoneBy === null &&
+          entry.previousLights.length > 0 &&
+          matches(entry),
+      ) ?? null
+    );
+  }
+
+  getEntry(id: number): JournalEntry | null {
+    return this.entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  private getScopeEntry(scope: JournalScope | undefined): JournalEntry {
+    if (scope?.entry) {
+      return scope.entry;
+    }
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      source: scope?.source ?? "unknown",
+      clientId: scope?.clientId ?? null,
+      startedAt: new Date(),
+      commands: [],
+      previousLights: [],
+      outcome: "succeeded",
+      undoOf: scope?.undoOf ?? null,
+      undoneBy: null,
+    };
+    if (scope) {
+      scope.entry = entry;
+    }
+    const undone = entry.undoOf !== null ? this.getEntry(entry.undoOf) : null;
+    if (undone) {
+      undone.undoneBy = entry.id;
+    }
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+    return entry;
+  }
+}
@@ -1,9 +1,17 @@
 /* WebSocket client for the Home Assistant server */
 import { WebSocket } from "ws";
 import EventEmitter from "node:events";
-import { clearInterval, setInterval } from "timers";
+import { isDeepStrictEqual } from "node:util";
+
+export type HassFloor = {
+  floor_id: string; // unique name
+  name: string;
+  level: number | null; // 0 is the ground floor, negative levels are basements
+  aliases: string[];
+};
 
 export type HassArea = {
+  aliases: string[];
   area_id: string; // unique name
   floor_id: string | null;
   name: string;
@@ -19,6 +27,7 @@ export type HassDevice = {
 };
 
 export type HassEntity = {
+  area_id: string | null; // overrides the device's area if set
   device_id: string | null;
   entity_id: string; // unique name
 };
@@ -28,6 +37,17 @@ export type HassEntityState = {
   a: {
     [key: string]: unknown; // attributes
   };
+  c?: string | HassContext; // context, only the id if parent_id and user_id are null
+  lc?: number; // last changed, seconds since epoch
+  lu?: number; // last updated, seconds since epoch, omitted if equal to lc
+};
+
+/**
+ * Compact diff for one entity in a subscribe_entities change event
+ */
+export type HassEntityStateDiff = {
+  "+"?: Partial<HassEntityState>; // changed state, attributes, context and timestamps
+  "-"?: { a: string[] }; // removed attribute names
 };
 
 export type HassHueLightEntityState = HassEntityState & {
@@ -40,9 +60,171 @@ export type HassHueLightEntityState = HassEntityState & {
     hs_color: number[] | null;
     rgb_color: number[] | null;
     xy_color: number[] | null;
+    supported_color_modes?: string[]; // e.g. onoff, brightness, color_temp, hs, xy, rgb
+    min_color_temp_kelvin?: number;
+    max_color_temp_kelvin?: number;
+    effect?: string | null;
+    effect_list?: string[];
   };
 };
 
+/**
+ * Service data for light.turn_on, set one way of specifying the colour at most
+ */
+export type HassLightTurnOnData = {
+  brightness?: number; // 0-255
+  rgb_color?: [number, number, number];
+  color_name?: string; // CSS3 colour name, e.g. red or lightblue
+  color_temp_kelvin?: number;
+  effect?: string;
+  transition?: number; // seconds
+};
+
+export type HassContext = {
+  id: string;
+  parent_id: string | null;
+  user_id: string | null;
+};
+
+export type HassServiceCallResult<TResponse = unknown> = {
+  context: HassContext;
+  response?: TResponse;
+  superseded?: boolean; // the call was never sent, a later call from the same caller replaced it
+};
+
+/**
+ * Entities to run a service on, Home Assistant expands devices, areas and floors to their entities
+ */
+export type HassServiceTarget = {
+  entity_id?: string | string[];
+  device_id?: string | string[];
+  area_id?: string | string[];
+  floor_id?: string | string[];
+};
+
+export type HassServiceData = Record<string, unknown>;
+
+/**
+ * A call_service payload, as recorded in dry-run mode
+ */
+export type HassServiceCall = {
+  domain: string;
+  service: string;
+  serviceData: HassServiceData;
+  target: HassServiceTarget | null;
+};
+
+export type HassErrorPayload = {
+  code: string;
+  message: string;
+};
+
+/**
+ * Home Assistant answered a command with an error result
+ */
+export class HassCommandError extends Error {
+  readonly code: string;
+  readonly messageId: number;
+
+  constructor(messageId: number, error: HassErrorPayload) {
+    super(`Home Assistant error (${error.code}): ${error.message}`);
+    this.name = "HassCommandError";
+    this.code = error.code;
+    this.messageId = messageId;
+  }
+}
+
+/**
+ * Home Assistant did not answer a command in time
+ */
+export class HassTimeoutError extends Error {
+  readonly messageId: number;
+
+  constructor(messageId: number, timeoutMs: number) {
+    super(`No response from Home Assistant after ${timeoutMs}ms`);
+    this.name = "HassTimeoutError";
+    this.messageId = messageId;
+  }
+}
+
+/**
+ * The connection closed before Home Assistant answered a command
+ */
+export class HassConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HassConnectionError";
+  }
+}
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * A service call waiting for its turn, callers whose calls were de-duplicated or coalesced into it share its result
+ */
+type QueuedServiceCall = {
+  call: HassServiceCall;
+  returnResponse: boolean;
+  caller: object | null; // only calls from the same caller are coalesced
+  waiters: {
+    resolve: (result: HassServiceCallResult<unknown>) => void;
+    reject: (error: Error) => void;
+    superseded: boolean; // the waiter's own call was dropped in favor of a later one
+  }[];
+};
+
+// Services that change something every time they run, so running them twice is never a duplicate
+const NON_IDEMPOTENT_SERVICES = [
+  "toggle",
+  "volume_up",
+  "volume_down",
+  "media_next_track",
+  "media_previous_track",
+];
+
+// Services that set the on/off state outright, a later one to the same target makes a queued one redundant
+const COALESCABLE_SERVICES = ["turn_on", "turn_off"];
+
+function isSameServiceCall(
+  a: { call: HassServiceCall; returnResponse: boolean },
+  b: { call: HassServiceCall; returnResponse: boolean },
+) {
+  return (
+    !NON_IDEMPOTENT_SERVICES.includes(a.call.service) &&
+    a.returnResponse === b.returnResponse &&
+    isDeepStrictEqual(a.call, b.call)
+  );
+}
+
+/**
+ * @returns a single call with the effect of running a and then b, and whether a's effect is lost in it,
+ * null if there is none
+ */
+function coalesceServiceCalls(
+  a: HassServiceCall,
+  b: HassServiceCall,
+): { call: HassServiceCall; supersedesA: boolean } | null {
+  if (
+    a.domain !== b.domain ||
+    !isDeepStrictEqual(a.target, b.target) ||
+    !COALESCABLE_SERVICES.includes(a.service) ||
+    !COALESCABLE_SERVICES.includes(b.service)
+  ) {
+    return null;
+  }
+  // Turning on twice applies both, e.g. brightness and then a color; anything else, the later call wins
+  return a.service === "turn_on" && b.service === "turn_on"
+    ? {
+        call: { ...b, serviceData: { ...a.serviceData, ...b.serviceData } },
+        supersedesA: false,
+      }
+    : { call: b, supersedesA: true };
+}
+
 /**
  * Message types that Home Assistant server sends to the client
  */
@@ -60,12 +242,44 @@ const SERVER_MESSAGE_TYPES = {
 const CLIENT_MESSAGE_TYPES = {
   AUTH: "auth",
   SUBSCRIBE_ENTITIES: "subscribe_entities",
+  SUBSCRIBE_EVENTS: "subscribe_events",
+  UNSUBSCRIBE_EVENTS: "unsubscribe_events",
   CALL_SERVICE: "call_service",
+  GET_FLOOR_REGISTRY: "config/floor_registry/list",
   GET_AREA_REGISTRY: "config/area_registry/list",
   GET_DEVICE_REGISTRY: "config/device_registry/list",
   GET_ENTITY_REGISTRY: "config/entity_registry/list",
 } as const;
 
+/**
+ * Lifecycle of the connection to the Home Assistant server
+ * - idle: connect() has not been called yet
+ * - connecting: socket is opening
+ * - authenticating: socket is open, waiting for auth_ok
+ * - connected: authenticated, data requests sent
+ * - reconnecting: connection lost, waiting for the next attempt
+ * - closed: close() was called or authentication failed
+ */
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "authenticating"
+  | "connected"
+  | "reconnecting"
+  | "closed";
+
+/**
+ * Home Assistant events that signal a registry changed and needs to be refetched
+ */
+const REGISTRY_EVENT_TYPES = {
+  floors: "floor_registry_updated",
+  areas: "area_registry_updated",
+  devices: "device_registry_updated",
+  entities: "entity_registry_updated",
+} as const;
+
+type Registry = keyof typeof REGISTRY_EVENT_TYPES;
+
 export type ClientMessageType =
   (typeof CLIENT_MESSAGE_TYPES)[keyof typeof CLIENT_MESSAGE_TYPES];
 export type ServerMessageType =
@@ -77,30 +291,94 @@ export class HomeAssistantWebSocketClient {
   private socket: WebSocket | null = null;
   private shouldLog: boolean;
   private runningId = 1;
-  private refetchInterval: ReturnType<typeof setInterval> | null = null;
+  private commandTimeoutMs: number;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private registryRefetchTimeouts: Partial<
+    Record<Registry, ReturnType<typeof setTimeout>>
+  > = {};
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private reconnectInitialDelayMs: number;
+  private reconnectMaxDelayMs: number;
+  private state: ConnectionState = "idle";
   private ids = {
-    areas: 0,
-    devices: 0,
-    entities: 0,
     entityStates: 0,
+    floorRegistryEvents: 0,
+    areaRegistryEvents: 0,
+    deviceRegistryEvents: 0,
+    entityRegistryEvents: 0,
   };
+  private awaitingInitialStates = false;
+  private dryRun: boolean;
+  private dryRunContextId = 1;
+  private serviceCallIntervalMs: number;
+  private dedupeWindowMs: number;
+  private serviceCallQueue: QueuedServiceCall[] = [];
+  private serviceCallTimeout: ReturnType<typeof setTimeout> | null = null;
+  private lastServiceCallAt = 0;
+  private lastServiceCall: {
+    call: HassServiceCall;
+    returnResponse: boolean;
+    sentAt: number;
+    result: Promise<HassServiceCallResult<unknown>>;
+  } | null = null;
   eventEmitter = new EventEmitter<{
+    connection_state: [ConnectionState];
+    floors: [HassFloor[]];
     areas: [HassArea[]];
     devices: [HassDevice[]];
     entities: [HassEntity[]];
     entity_states: [Record<string, HassEntityState>];
-    entity_state_change: [Record<string, { "+": HassEntityState }>];
+    entity_state_change: [Record<string, HassEntityStateDiff>];
+    entity_added: [Record<string, HassEntityState>];
+    entity_removed: [string[]];
+    service_call_recorded: [HassServiceCall];
   }>();
 
   constructor(
     host: string,
     token: string,
-    { isSecure = false, shouldLog = false } = {},
+    {
+      isSecure = false,
+      shouldLog = false,
+      commandTimeoutMs = 10_000,
+      reconnectInitialDelayMs = 1_000,
+      reconnectMaxDelayMs = 60_000,
+      dryRun = false,
+      serviceCallIntervalMs = 50,
+      dedupeWindowMs = 1_000,
+    } = {},
   ) {
     const protocol = isSecure ? "wss" : "ws";
     this.connectionUrl = `${protocol}://${host}/api/websocket`;
     this.token = token;
     this.shouldLog = shouldLog;
+    this.commandTimeoutMs = commandTimeoutMs;
+    this.reconnectInitialDelayMs = reconnectInitialDelayMs;
+    this.reconnectMaxDelayMs = reconnectMaxDelayMs;
+    this.dryRun = dryRun;
+    this.serviceCallIntervalMs = serviceCallIntervalMs;
+    this.dedupeWindowMs = dedupeWindowMs;
+  }
+
+  get connectionState() {
+    return this.state;
+  }
+
+  /**
+   * In dry-run mode service calls are recorded instead of sent, everything else still reaches Home Assistant
+   */
+  get isDryRun() {
+    return this.dryRun;
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) {
+      return;
+    }
+    this.log("Connection state changed", this.state, "->", state);
+    this.state = state;
+    this.eventEmitter.emit("connection_state", state);
   }
 
   private log(message: string, ...args: unknown[]) {
@@ -109,17 +387,40 @@ export class HomeAssistantWebSocketClient {
     }
   }
 
+  /**
+   * Opens the connection and keeps it alive, reconnecting with exponential backoff
+   * until close() is called. Calling connect() again while connected is a no-op.
+   */
   connect() {
-    this.log("Connecting to Home Assistant WS server...");
-    if (this.socket) {
-      throw new Error("Socket unexpectedly already connected");
+    if (this.state !== "idle" && this.state !== "closed") {
+      this.log("Already connected or connecting, ignoring connect()");
+      return;
     }
+    this.reconnectAttempts = 0;
+    this.openSocket();
+  }
 
+  private openSocket() {
+    this.log("Connecting to Home Assistant WS server...");
+    this.setState("connecting");
     this.runningId = 1;
+    // Subscriptions don't survive the connection they were made on
+    this.ids = {
+      entityStates: 0,
+      floorRegistryEvents: 0,
+      areaRegistryEvents: 0,
+      deviceRegistryEvents: 0,
+      entityRegistryEvents: 0,
+    };
     const socket = new WebSocket(this.connectionUrl);
 
     socket.onopen = () => {
       this.log("Connected to server");
+      this.setState("authenticating");
+    };
+
+    socket.onerror = (event) => {
+      this.log("WebSocket error", event.message);
     };
 
     socket.onmessage = (event) => {
@@ -139,53 +440,80 @@ export class HomeAssistantWebSocketClient {
 
       if (serverMessageType === SERVER_MESSAGE_TYPES.AUTH_INVALID) {
         console.error("Authentication failed. Closing connection.");
+        // Retrying with the same token won't help, so don't reconnect
+        this.setState("closed");
         socket.close();
         return;
       }
 
       if (serverMessageType === SERVER_MESSAGE_TYPES.AUTH_OK) {
         this.log("Authentication successful.");
+        this.reconnectAttempts = 0;
+        this.setState("connected");
         this.sendDataRequests();
         return;
       }
 
       if (serverMessageType === SERVER_MESSAGE_TYPES.RESULT) {
-        if (data.error) {
-          console.error("Error result: ", data.error);
+        const pendingRequest = this.pendingRequests.get(data.id);
+        if (!pendingRequest) {
+          if (data.error) {
+            console.error("Error result: ", data.error);
+          }
           return;
         }
-        if (data.id === this.ids.areas) {
-          this.log("Received areas result", data.result.length);
-          this.eventEmitter.emit("areas", data.result);
+        this.pendingRequests.delete(data.id);
+        clearTimeout(pendingRequest.timeout);
+        if (data.success === false || data.error) {
+          pendingRequest.reject(new HassCommandError(data.id, data.error));
           return;
         }
-        if (data.id === this.ids.devices) {
-          this.log("Received devices result", data.result.length);
-          this.eventEmitter.emit("devices", data.result);
+        pendingRequest.resolve(data.result);
+        return;
+      }
+
+      if (serverMessageType === SERVER_MESSAGE_TYPES.EVENT) {
+        if (data.id === this.ids.floorRegistryEvents) {
+          this.scheduleRegistryRefetch("floors");
           return;
         }
-        if (data.id === this.ids.entities) {
-          this.log("Received entities result", data.result.length);
-          this.eventEmitter.emit("entities", data.result);
+        if (data.id === this.ids.areaRegistryEvents) {
+          this.scheduleRegistryRefetch("areas");
           return;
         }
-        if (data.id === this.ids.entityStates) {
-          this.log("Successfully subscribed to entities");
+        if (data.id === this.ids.deviceRegistryEvents) {
+          this.scheduleRegistryRefetch("devices");
           return;
         }
-        return;
-      }
-
-      if (serverMessageType === SERVER_MESSAGE_TYPES.EVENT) {
-        if ("a" in data.event) {
-          this.log("Received entities event", Object.keys(data.event.a));
-          this.eventEmitter.emit("entity_states", data.event.a);
+        if (data.id === this.ids.entityRegistryEvents) {
+          this.scheduleRegistryRefetch("entities");
+          return;
+        }
+        if (data.id !== this.ids.entityStates) {
+          this.log("Ignoring event of stale subscription", data.id);
           return;
         }
+        // One event can carry additions, changes and removals at once
+        if ("a" in data.event) {
+          if (this.awaitingInitialStates) {
+            this.awaitingInitialStates = false;
+            this.log("Received entities event", Object.keys(data.event.a));
+            this.eventEmitter.emit("entity_states", data.event.a);
+          } else {
+            this.log(
+              "Received entities added event",
+              Object.keys(data.event.a),
+            );
+            this.eventEmitter.emit("entity_added", data.event.a);
+          }
+        }
         if ("c" in data.event) {
           this.log("Received entities change event", Object.keys(data.event.c));
           this.eventEmitter.emit("entity_state_change", data.event.c);
-          return;
+        }
+        if ("r" in data.event) {
+          this.log("Received entities removed event", data.event.r);
+          this.eventEmitter.emit("entity_removed", data.event.r);
         }
         return;
       }
@@ -193,31 +521,76 @@ export class HomeAssistantWebSocketClient {
 
     socket.onclose = () => {
       this.log("Disconnected from server");
+      if (this.socket !== socket) {
+        // Stale socket, close() already cleaned up after it
+        return;
+      }
+      this.socket = null;
+      this.rejectPendingRequests(
+        new HassConnectionError("Connection to Home Assistant closed"),
+      );
+      if (this.state !== "closed") {
+        this.scheduleReconnect();
+      }
     };
     this.socket = socket;
+  }
 
-    const threeMinutesInMs = 3 * 60 * 1000;
-    this.refetchInterval = setInterval(() => {
-      if (this.socket) {
-        this.sendDataRequests();
-      } else if (this.refetchInterval) {
-        clearInterval(this.refetchInterval);
-      }
-    }, threeMinutesInMs);
+  private scheduleReconnect() {
+    const delay = Math.min(
+      this.reconnectInitialDelayMs * 2 ** this.reconnectAttempts,
+      this.reconnectMaxDelayMs,
+    );
+    this.reconnectAttempts++;
+    this.log(
+      `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})...`,
+    );
+    this.setState("reconnecting");
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.openSocket();
+    }, delay);
   }
 
   close() {
+    this.setState("closed");
+    for (const timeout of Object.values(this.registryRefetchTimeouts)) {
+      clearTimeout(timeout);
+    }
+    this.registryRefetchTimeouts = {};
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
     if (this.socket) {
-      if (this.refetchInterval) {
-        clearInterval(this.refetchInterval);
-      }
       this.socket.close();
+      this.socket = null;
+    }
+    if (this.serviceCallTimeout) {
+      clearTimeout(this.serviceCallTimeout);
+      this.serviceCallTimeout = null;
     }
+    const error = new HassConnectionError("Home Assistant client closed");
+    for (const queued of this.serviceCallQueue) {
+      queued.waiters.forEach((waiter) => waiter.reject(error));
+    }
+    this.serviceCallQueue = [];
+    this.rejectPendingRequests(error);
+  }
+
+  private rejectPendingRequests(error: Error) {
+    for (const pendingRequest of this.pendingRequests.values()) {
+      clearTimeout(pendingRequest.timeout);
+      pendingRequest.reject(error);
+    }
+    this.pendingRequests.clear();
   }
 
   private send(type: ClientMessageType, payload?: object) {
-    if (!this.socket) {
-      throw new Error("Socket is not connected");
+    if (!this.socket || this.state !== "connected") {
+      throw new HassConnectionError(
+        `Not connected to Home Assistant (${this.state})`,
+      );
     }
     const id = this.runningId;
     const message = { ...payload, type, id };
@@ -228,42 +601,292 @@ export class HomeAssistantWebSocketClient {
     return id;
   }
 
+  /**
+   * Resolves with the result payload of the message with the given id
+   * or rejects with a HassCommandError, HassTimeoutError or HassConnectionError
+   */
+  private waitForResult<T>(id: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new HassTimeoutError(id, this.commandTimeoutMs));
+      }, this.commandTimeoutMs);
+      this.pendingRequests.set(id, {
+        resolve: (result) => resolve(result as T),
+        reject,
+        timeout,
+      });
+    });
+  }
+
+  private async request<T>(
+    type: ClientMessageType,
+    payload?: object,
+  ): Promise<T> {
+    const id = this.send(type, payload);
+    return this.waitForResult<T>(id);
+  }
+
   private sendDataRequests() {
     if (!this.socket) {
       throw new Error(
         "Attempting to sendDataRequests but socket is not connected",
       );
     }
-    this.ids.areas = this.send(CLIENT_MESSAGE_TYPES.GET_AREA_REGISTRY);
-    this.ids.devices = this.send(CLIENT_MESSAGE_TYPES.GET_DEVICE_REGISTRY);
-    this.ids.entities = this.send(CLIENT_MESSAGE_TYPES.GET_ENTITY_REGISTRY);
+    this.fetchRegistry("floors");
+    this.fetchRegistry("areas");
+    this.fetchRegistry("devices");
+    this.fetchRegistry("entities");
+    this.subscribeEntities();
+    this.subscribeRegistryEvents();
+  }
+
+  private fetchRegistry(registry: Registry) {
+    const requests = {
+      floors: () =>
+        this.request<HassFloor[]>(CLIENT_MESSAGE_TYPES.GET_FLOOR_REGISTRY).then(
+          (floors) => this.eventEmitter.emit("floors", floors),
+        ),
+      areas: () =>
+        this.request<HassArea[]>(CLIENT_MESSAGE_TYPES.GET_AREA_REGISTRY).then(
+          (areas) => this.eventEmitter.emit("areas", areas),
+        ),
+      devices: () =>
+        this.request<HassDevice[]>(
+          CLIENT_MESSAGE_TYPES.GET_DEVICE_REGISTRY,
+        ).then((devices) => this.eventEmitter.emit("devices", devices)),
+      entities: () =>
+        this.request<HassEntity[]>(
+          CLIENT_MESSAGE_TYPES.GET_ENTITY_REGISTRY,
+        ).then((entities) => this.eventEmitter.emit("entities", entities)),
+    };
+    requests[registry]()
+      .then(() => this.log(`Received ${registry} result`))
+      .catch((error) => console.error(`Failed to fetch ${registry}: `, error));
+  }
+
+  /**
+   * Registry events fire once per changed item, so wait for a burst of them to settle before refetching
+   */
+  private scheduleRegistryRefetch(registry: Registry) {
+    this.log(`Received ${REGISTRY_EVENT_TYPES[registry]} event`);
+    clearTimeout(this.registryRefetchTimeouts[registry]);
+    this.registryRefetchTimeouts[registry] = setTimeout(() => {
+      delete this.registryRefetchTimeouts[registry];
+      if (this.state === "connected") {
+        this.fetchRegistry(registry);
+      }
+    }, 250);
+  }
+
+  /**
+   * Subscribes to entity states, replacing the existing subscription if there is one
+   */
+  private subscribeEntities() {
+    if (this.ids.entityStates) {
+      this.unsubscribe(this.ids.entityStates);
+    }
     this.ids.entityStates = this.send(CLIENT_MESSAGE_TYPES.SUBSCRIBE_ENTITIES);
+    // The first "a" event of a subscription is the full snapshot of all entities
+    this.awaitingInitialStates = true;
+    this.waitForResult(this.ids.entityStates)
+      .then(() => this.log("Successfully subscribed to entities"))
+      .catch((error) =>
+        console.error("Failed to subscribe to entities: ", error),
+      );
+  }
+
+  private subscribeRegistryEvents() {
+    const subscribe = (registry: Registry) => {
+      const id = this.send(CLIENT_MESSAGE_TYPES.SUBSCRIBE_EVENTS, {
+        event_type: REGISTRY_EVENT_TYPES[registry],
+      });
+      this.waitForResult(id).catch((error) =>
+        console.error(`Failed to subscribe to ${registry} updates: `, error),
+      );
+      return id;
+    };
+    if (!this.ids.floorRegistryEvents) {
+      this.ids.floorRegistryEvents = subscribe("floors");
+    }
+    if (!this.ids.areaRegistryEvents) {
+      this.ids.areaRegistryEvents = subscribe("areas");
+    }
+    if (!this.ids.deviceRegistryEvents) {
+      this.ids.deviceRegistryEvents = subscribe("devices");
+    }
+    if (!this.ids.entityRegistryEvents) {
+      this.ids.entityRegistryEvents = subscribe("entities");
+    }
+  }
+
+  private unsubscribe(subscriptionId: number) {
+    this.request(CLIENT_MESSAGE_TYPES.UNSUBSCRIBE_EVENTS, {
+      subscription: subscriptionId,
+    }).catch((error) =>
+      console.error(`Failed to unsubscribe ${subscriptionId}: `, error),
+    );
+  }
+
+  /**
+   * Calls any Home Assistant service, e.g. callService("cover", "open_cover", {}, { area_id: "garage" }).
+   * Calls are sent at most one per serviceCallIntervalMs, the others wait in a queue. A call identical to
+   * the one before it shares its result instead of being sent again, if that one is still queued or was sent
+   * within dedupeWindowMs. A turn_on or turn_off right behind a queued turn_on or turn_off to the same target
+   * from the same caller is merged into it, the earlier call's result has superseded set if it is dropped.
+   * @param returnResponse - ask Home Assistant to include the service response, only supported by services that return data
+   * @param caller - identifies who is calling, e.g. one tool call; null never merges the call with another
+   */
+  callService<TResponse = unknown>(
+    domain: string,
+    service: string,
+    serviceData: HassServiceData = {},
+    target?: HassServiceTarget,
+    {
+      returnResponse = false,
+      caller = null,
+    }: { returnResponse?: boolean; caller?: object | null } = {},
+  ): Promise<HassServiceCallResult<TResponse>> {
+    const call = { domain, service, serviceData, target: target ?? null };
+    const result = new Promise<HassServiceCallResult<unknown>>(
+      (resolve, reject) => {
+        const waiter = { resolve, reject, superseded: false };
+        const last = this.serviceCallQueue.at(-1);
+        if (last) {
+          if (isSameServiceCall(last, { call, returnResponse })) {
+            this.log(`De-duplicating call service ${domain}.${service}`);
+            // Once it is another caller's call too, no caller may replace it
+            if (last.caller !== caller) {
+              last.caller = null;
+            }
+            last.waiters.push(waiter);
+            return;
+          }
+          const coalesced =
+            caller !== null &&
+            last.caller === caller &&
+            !last.returnResponse &&
+            !returnResponse
+              ? coalesceServiceCalls(last.call, call)
+              : null;
+          if (coalesced) {
+            this.log(`Coalescing call service ${domain}.${service}`);
+            last.call = coalesced.call;
+            if (coalesced.supersedesA) {
+              last.waiters.forEach((w) => (w.superseded = true));
+            }
+            last.waiters.push(waiter);
+            return;
+          }
+        } else if (
+          this.lastServiceCall &&
+          Date.now() - this.lastServiceCall.sentAt < this.dedupeWindowMs &&
+          isSameServiceCall(this.lastServiceCall, { call, returnResponse })
+        ) {
+          this.log(`De-duplicating call service ${domain}.${service}`);
+          this.lastServiceCall.result.then(resolve, reject);
+          return;
+        }
+        this.serviceCallQueue.push({
+          call,
+          returnResponse,
+          caller,
+          waiters: [waiter],
+        });
+        this.processServiceCallQueue();
+      },
+    );
+    return result as Promise<HassServiceCallResult<TResponse>>;
+  }
+
+  /**
+   * Sends the next queued service call once serviceCallIntervalMs has passed since the last one
+   */
+  private processServiceCallQueue() {
+    if (this.serviceCallTimeout || this.serviceCallQueue.length === 0) {
+      return;
+    }
+    const waitMs =
+      this.lastServiceCallAt + this.serviceCallIntervalMs - Date.now();
+    if (waitMs > 0) {
+      this.serviceCallTimeout = setTimeout(() => {
+        this.serviceCallTimeout = null;
+        this.processServiceCallQueue();
+      }, waitMs);
+      return;
+    }
+    const { call, returnResponse, waiters } = this.serviceCallQueue.shift()!;
+    const result = this.sendServiceCall(call, returnResponse);
+    this.lastServiceCallAt = Date.now();
+    const sent = {
+      call,
+      returnResponse,
+      sentAt: this.lastServiceCallAt,
+      result,
+    };
+    this.lastServiceCall = sent;
+    result.then(
+      (value) =>
+        waiters.forEach((waiter) =>
+          waiter.resolve(
+            waiter.superseded ? { ...value, superseded: true } : value,
+          ),
+        ),
+      (error) => {
+        // A failed call is not a result to share, repeating it sends it again
+        if (this.lastServiceCall === sent) {
+          this.lastServiceCall = null;
+        }
+        waiters.forEach((waiter) => waiter.reject(error));
+      },
+    );
+    this.processServiceCallQueue();
+  }
+
+  private sendServiceCall(
+    call: HassServiceCall,
+    returnResponse: boolean,
+  ): Promise<HassServiceCallResult<unknown>> {
+    const { domain, service, serviceData, target } = call;
+    if (this.dryRun) {
+      this.log(`Recording call service ${domain}.${service}`);
+      // Asynchronously, like state changes after a real call, callers may be iterating over the entities
+      queueMicrotask(() =>
+        this.eventEmitter.emit("service_call_recorded", call),
+      );
+      // Like a real call without a response, nothing is known about what the service would return
+      return Promise.resolve({
+        context: {
+          id: `dry-run-${this.dryRunContextId++}`,
+          parent_id: null,
+          user_id: null,
+        },
+      });
+    }
+    this.log(`Sending call service ${domain}.${service}`);
+    return this.request<HassServiceCallResult<unknown>>(
+      CLIENT_MESSAGE_TYPES.CALL_SERVICE,
+      {
+        domain,
+        service,
+        service_data: serviceData,
+        ...(target && { target }),
+        ...(returnResponse && { return_response: true }),
+      },
+    );
   }
 
   sendToggleLight(entityId: string) {
-    this.log("Sending toggle light");
-    this.send(CLIENT_MESSAGE_TYPES.CALL_SERVICE, {
-      domain: "light",
-      service: "toggle",
-      service_data: { entity_id: entityId },
-    });
+    return this.callService("light", "toggle", {}, { entity_id: entityId });
   }
 
-  sendTurnOnLight(entityId: string, data?: { brightness?: number }) {
-    this.log("Sending turn on light");
-    this.send(CLIENT_MESSAGE_TYPES.CALL_SERVICE, {
-      domain: "light",
-      service: "turn_on",
-      service_data: { entity_id: entityId, ...data },
+  sendTurnOnLight(entityId: string, data?: HassLightTurnOnData) {
+    return this.callService("light", "turn_on", data, {
+      entity_id: entityId,
     });
   }
 
   sendTurnOffLight(entityId: string) {
-    this.log("Sending turn off light");
-    this.send(CLIENT_MESSAGE_TYPES.CALL_SERVICE, {
-      domain: "light",
-      service: "turn_off",
-      service_data: { entity_id: entityId },
-    });
+    return this.callService("light", "turn_off", {}, { entity_id: entityId });
   }
 }
@@ -0,0 +1,522 @@
+/* In-process stand-in for the Home Assistant WebSocket API, for running without a real server */
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "node:net";
+import { isDeepStrictEqual } from "node:util";
+import type {
+  HassEntityState,
+  HassEntityStateDiff,
+  HassErrorPayload,
+} from "./client";
+import { type FakeHassFixture, getDefaultFixture } from "./fake-fixture";
+import { simulateService, toArray } from "./simulate";
+
+export type FakeServiceCall = {
+  domain: string;
+  service: string;
+  serviceData: Record<string, unknown>;
+  target: Record<string, unknown> | null;
+};
+
+type FakeConnection = {
+  socket: WebSocket;
+  isAuthenticated: boolean;
+  entitySubscriptionIds: Set<number>;
+  eventSubscriptions: Map<number, string>; // subscription id -> event type
+};
+
+type ClientMessage = {
+  id: number;
+  type: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Services the fake server knows how to apply, per domain
+ */
+const FAKE_SERVICES: Record<string, string[]> = {
+  light: ["turn_on", "turn_off", "toggle"],
+  switch: ["turn_on", "turn_off", "toggle"],
+  fan: ["turn_on", "turn_off", "toggle", "set_percentage"],
+  cover: ["open_cover", "close_cover", "stop_cover", "set_cover_position"],
+  climate: ["turn_on", "turn_off", "set_temperature", "set_hvac_mode"],
+  media_player: [
+    "turn_on",
+    "turn_off",
+    "media_play",
+    "media_pause",
+    "volume_set",
+  ],
+  lock: ["lock", "unlock"],
+  scene: ["create", "turn_on"],
+};
+
+/**
+ * Compact diff as sent in subscribe_entities change events
+ */
+function getStateDiff(
+  previous: HassEntityState,
+  next: HassEntityState,
+): HassEntityStateDiff {
+  const toAdd: Partial<HassEntityState> = {};
+  if (previous.s !== next.s) {
+    toAdd.s = next.s;
+  }
+  if (next.lc !== previous.lc) {
+    toAdd.lc = next.lc;
+  } else if (next.lu !== previous.lu) {
+    toAdd.lu = next.lu;
+  }
+  const changedAttributes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next.a)) {
+    if (!isDeepStrictEqual(previous.a[key], value)) {
+      changedAttributes[key] = value;
+    }
+  }
+  if (Object.keys(changedAttributes).length > 0) {
+    toAdd.a = changedAttributes;
+  }
+  const removedAttributes = Object.keys(previous.a).filter(
+    (key) => !(key in next.a),
+  );
+  return {
+    "+": toAdd,
+    ...(removedAttributes.length > 0 && { "-": { a: removedAttributes } }),
+  };
+}
+
+export class FakeHomeAssistantServer {
+  private server: WebSocketServer | null = null;
+  private connections = new Set<FakeConnection>();
+  private port: number;
+  private token: string;
+  private shouldLog: boolean;
+  private contextId = 1;
+  private scenes = new Map<string, Record<string, Record<string, unknown>>>();
+  fixture: FakeHassFixture;
+  /**
+   * Every call_service message received, in order
+   */
+  serviceCalls: FakeServiceCall[] = [];
+
+  constructor({
+    port = 0,
+    token = "fake-token",
+    fixture = getDefaultFixture(),
+    shouldLog = false,
+  }: {
+    port?: number;
+    token?: string;
+    fixture?: FakeHassFixture;
+    shouldLog?: boolean;
+  } = {}) {
+    this.port = port;
+    this.token = token;
+    this.fixture = structuredClone(fixture);
+    this.shouldLog = shouldLog;
+  }
+
+  private log(message: string, ...args: unknown[]) {
+    if (this.shouldLog) {
+      console.log(`FakeHomeAssistantServer: ${message}`, ...args);
+    }
+  }
+
+  /**
+   * host:port to pass to HomeAssistantWebSocketClient
+   */
+  get host() {
+    if (!this.server) {
+      throw new Error("Fake server is not running");
+    }
+    const address = this.server.address() as AddressInfo;
+    return `localhost:${address.port}`;
+  }
+
+  start() {
+    if (this.server) {
+      throw new Error("Fake server already started");
+    }
+    return new Promise<string>((resolve, reject) => {
+      const server = new WebSocketServer({
+        port: this.port,
+        path: "/api/websocket",
+      });
+      server.on("connection", (socket) => this.handleConnection(socket));
+      server.once("listening", () => {
+        this.log("Listening on", this.host);
+        resolve(this.host);
+      });
+      server.once("error", reject);
+      this.server = server;
+    });
+  }
+
+  stop() {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+    this.disconnectAll();
+    this.server = null;
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Drops every client connection, e.g. to simulate a Home Assistant restart
+   */
+  disconnectAll() {
+    for (const connection of this.connections) {
+      connection.socket.terminate();
+    }
+    this.connections.clear();
+  }
+
+  /**
+   * Changes an entity's state and notifies subscribers, as if it changed outside of the client
+   */
+  setEntityState(entityId: string, state: HassEntityState) {
+    const previous = this.fixture.states[entityId];
+    const next = this.writeState(entityId, state);
+    if (previous) {
+      this.broadcast({ c: { [entityId]: getStateDiff(previous, next) } });
+    } else {
+      this.broadcast({ a: { [entityId]: next } });
+    }
+  }
+
+  /**
+   * Removes an entity's state and registry entry and notifies subscribers
+   */
+  removeEntity(entityId: string) {
+    delete this.fixture.states[entityId];
+    this.fixture.entities = this.fixture.entities.filter(
+      (entity) => entity.entity_id !== entityId,
+    );
+    this.broadcast({ r: [entityId] });
+    this.fireEvent("entity_registry_updated", {
+      action: "remove",
+      entity_id: entityId,
+    });
+  }
+
+  /**
+   * Sends a Home Assistant event to every subscriber of its type,
+   * e.g. fireEvent("area_registry_updated", { action: "create", area_id: "garage" }) after adding an area to the fixture
+   */
+  fireEvent(eventType: string, data: Record<string, unknown>) {
+    for (const connection of this.connections) {
+      for (const [
+        subscriptionId,
+        subscribedType,
+      ] of connection.eventSubscriptions) {
+        if (subscribedType !== eventType) {
+          continue;
+        }
+        this.sendMessage(connection, {
+          id: subscriptionId,
+          type: "event",
+          event: {
+            event_type: eventType,
+            data,
+            origin: "LOCAL",
+            time_fired: new Date().toISOString(),
+            context: {
+              id: `fake-context-${this.contextId++}`,
+              parent_id: null,
+              user_id: null,
+            },
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Stores the state with Home Assistant's timestamp rules: last changed only moves when the state does
+   */
+  private writeState(entityId: string, state: HassEntityState) {
+    const previous = this.fixture.states[entityId];
+    const now = Date.now() / 1000;
+    const next: HassEntityState =
+      previous && previous.s === state.s && previous.lc !== undefined
+        ? { s: state.s, a: state.a, lc: previous.lc, lu: now }
+        : { s: state.s, a: state.a, lc: now };
+    this.fixture.states[entityId] = next;
+    return next;
+  }
+
+  private handleConnection(socket: WebSocket) {
+    const connection: FakeConnection = {
+      socket,
+      isAuthenticated: false,
+      entitySubscriptionIds: new Set(),
+      eventSubscriptions: new Map(),
+    };
+    this.connections.add(connection);
+    socket.on("close", () => this.connections.delete(connection));
+    socket.on("message", (raw) => {
+      const message = JSON.parse(raw.toString()) as ClientMessage;
+      this.log("Received message", message.type);
+      this.handleMessage(connection, message);
+    });
+    this.sendMessage(connection, {
+      type: "auth_required",
+      ha_version: "fake",
+    });
+  }
+
+  private sendMessage(connection: FakeConnection, message: object) {
+    connection.socket.send(JSON.stringify(message));
+  }
+
+  private sendResult(connection: FakeConnection, id: number, result: unknown) {
+    this.sendMessage(connection, { id, type: "result", success: true, result });
+  }
+
+  private sendError(
+    connection: FakeConnection,
+    id: number,
+    error: HassErrorPayload,
+  ) {
+    this.sendMessage(connection, {
+      id,
+      type: "result",
+      success: false,
+      error,
+    });
+  }
+
+  private handleMessage(connection: FakeConnection, message: ClientMessage) {
+    if (!connection.isAuthenticated) {
+      if (message.type !== "auth") {
+        connection.socket.close();
+        return;
+      }
+      if (message.access_token !== this.token) {
+        this.sendMessage(connection, {
+          type: "auth_invalid",
+          message: "Invalid access token or password",
+        });
+        connection.socket.close();
+        return;
+      }
+      connection.isAuthenticated = true;
+      this.sendMessage(connection, { type: "auth_ok", ha_version: "fake" });
+      return;
+    }
+
+    switch (message.type) {
+      case "config/floor_registry/list":
+        this.sendResult(connection, message.id, this.fixture.floors);
+        return;
+      case "config/area_registry/list":
+        this.sendResult(connection, message.id, this.fixture.areas);
+        return;
+      case "config/device_registry/list":
+        this.sendResult(connection, message.id, this.fixture.devices);
+        return;
+      case "config/entity_registry/list":
+        this.sendResult(connection, message.id, this.fixture.entities);
+        return;
+      case "subscribe_entities":
+        connection.entitySubscriptionIds.add(message.id);
+        this.sendResult(connection, message.id, null);
+        this.sendMessage(connection, {
+          id: message.id,
+          type: "event",
+          event: { a: this.fixture.states },
+        });
+        return;
+      case "subscribe_events":
+        connection.eventSubscriptions.set(
+          message.id,
+          String(message.event_type),
+        );
+        this.sendResult(connection, message.id, null);
+        return;
+      case "unsubscribe_events": {
+        const subscriptionId = Number(message.subscription);
+        if (
+          !connection.entitySubscriptionIds.delete(subscriptionId) &&
+          !connection.eventSubscriptions.delete(subscriptionId)
+        ) {
+          this.sendError(connection, message.id, {
+            code: "not_found",
+            message: "Subscription not found.",
+          });
+          return;
+        }
+        this.sendResult(connection, message.id, null);
+        return;
+      }
+      case "call_service":
+        this.handleCallService(connection, message);
+        return;
+      default:
+        this.sendError(connection, message.id, {
+          code: "unknown_command",
+          message: "Unknown command.",
+        });
+    }
+  }
+
+  private handleCallService(
+    connection: FakeConnection,
+    message: ClientMessage,
+  ) {
+    const domain = String(message.domain);
+    const service = String(message.service);
+    const serviceData = (message.service_data ?? {}) as Record<string, unknown>;
+    const target = (message.target ?? null) as Record<string, unknown> | null;
+    this.serviceCalls.push({ domain, service, serviceData, target });
+
+    if (!FAKE_SERVICES[domain]?.includes(service)) {
+      this.sendError(connection, message.id, {
+        code: "not_found",
+        message: `Service ${domain}.${service} not found.`,
+      });
+      return;
+    }
+
+    const { entity_id, device_id, area_id, floor_id, ...data } = serviceData;
+    const fullTarget = { entity_id, device_id, area_id, floor_id, ...target };
+    const changes: Record<string, HassEntityStateDiff> = {};
+    const apply = (
+      entityId: string,
+      entityService: string,
+      entityData: Record<string, unknown>,
+    ) => {
+      const current = this.fixture.states[entityId];
+      if (!current || current.s === "unavailable") {
+        return;
+      }
+      const next = this.writeState(
+        entityId,
+        simulateService(
+          entityId.split(".")[0],
+          entityService,
+          current,
+          entityData,
+        ),
+      );
+      changes[entityId] = getStateDiff(current, next);
+    };
+    if (domain === "scene") {
+      this.applySceneService(service, data, fullTarget, apply);
+    } else {
+      for (const entityId of this.resolveTarget(domain, fullTarget)) {
+        apply(entityId, service, data);
+      }
+    }
+
+    this.sendResult(connection, message.id, {
+      context: {
+        id: `fake-context-${this.contextId++}`,
+        parent_id: null,
+        user_id: null,
+      },
+      ...(message.return_response ? { response: {} } : {}),
+    });
+    if (Object.keys(changes).length > 0) {
+      this.broadcast({ c: changes });
+    }
+  }
+
+  /**
+   * scene.create stores the entities' target states and adds a scene.<id> entity listing them, like Home
+   * Assistant does. scene.turn_on applies them as turn_on/turn_off calls.
+   */
+  private applySceneService(
+    service: string,
+    data: Record<string, unknown>,
+    target: Record<string, unknown>,
+    apply: (
+      entityId: string,
+      service: string,
+      data: Record<string, unknown>,
+    ) => void,
+  ) {
+    if (service === "create") {
+      const entities = (data.entities ?? {}) as Record<
+        string,
+        Record<string, unknown>
+      >;
+      this.scenes.set(`scene.${data.scene_id}`, entities);
+      this.setEntityState(`scene.${data.scene_id}`, {
+        s: "unknown",
+        a: {
+          entity_id: Object.keys(entities),
+          friendly_name: String(data.scene_id),
+        },
+        lc: Date.now() / 1000,
+      });
+      return;
+    }
+    for (const sceneId of toArray(target.entity_id)) {
+      const entities = this.scenes.get(sceneId) ?? {};
+      for (const [entityId, { state, ...attributes }] of Object.entries(
+        entities,
+      )) {
+        apply(entityId, state === "off" ? "turn_off" : "turn_on", attributes);
+      }
+    }
+  }
+
+  /**
+   * Expands entity, device, area and floor targets to entity ids of the given domain
+   */
+  private resolveTarget(domain: string, target: Record<string, unknown>) {
+    const entityIds = new Set(toArray(target.entity_id));
+    const areaIds = new Set(toArray(target.area_id));
+    const floorIds = new Set(toArray(target.floor_id));
+    for (const area of this.fixture.areas) {
+      if (area.floor_id && floorIds.has(area.floor_id)) {
+        areaIds.add(area.area_id);
+      }
+    }
+    const deviceIds = new Set(toArray(target.device_id));
+    for (const entity of this.fixture.entities) {
+      const device = this.fixture.devices.find(
+        (d) => d.id === entity.device_id,
+      );
+      // The entity's own area overrides its device's area
+      const areaId = entity.area_id ?? device?.area_id;
+      if (
+        (entity.device_id && deviceIds.has(entity.device_id)) ||
+        (areaId && areaIds.has(areaId))
+      ) {
+        entityIds.add(entity.entity_id);
+      }
+    }
+    return [...entityIds].filter((entityId) =>
+      entityId.startsWith(`${domain}.`),
+    );
+  }
+
+  private broadcast(event: {
+    a?: Record<string, HassEntityState>;
+    c?: Record<string, HassEntityStateDiff>;
+    r?: string[];
+  }) {
+    for (const connection of this.connections) {
+      for (const subscriptionId of connection.entitySubscriptionIds) {
+        this.sendMessage(connection, {
+          id: subscriptionId,
+          type: "event",
+          event,
+        });
+      }
+    }
+  }
+}
+
+// Run standalone: bun run fake-hass
+if (import.meta.main) {
+  const server = new FakeHomeAssistantServer({
+    port: Number(process.env.FAKE_HASS_PORT ?? 8123),
+    token: process.env.HOME_ASSISTANT_TOKEN ?? "fake-token",
+    shouldLog: true,
+  });
+  const host = await server.start();
+  console.log(`🏠 Fake Home Assistant listening on ws://${host}/api/websocket`);
+}
@@ -0,0 +1,138 @@
+/* Simulates the effect of service calls on entity states, used by the fake server and dry-run mode */
+import type { HassEntityState } from "./client";
+
+export function toArray(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === "string");
+  }
+  return [];
+}
+
+/**
+ * The handful of colour names the simulation understands, anything else turns white
+ */
+const SIMULATED_COLOR_NAMES: Record<string, [number, number, number]> = {
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  pink: [255, 192, 203],
+  lightblue: [173, 216, 230],
+  white: [255, 255, 255],
+};
+
+function getLightColorAttributes(
+  a: Record<string, unknown>,
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  const supportedColorModes = toArray(a.supported_color_modes);
+  const colorMode =
+    supportedColorModes.find((mode) => mode !== "color_temp") ?? "brightness";
+  if (typeof data.color_temp_kelvin === "number") {
+    return {
+      color_mode: "color_temp",
+      color_temp_kelvin: data.color_temp_kelvin,
+      rgb_color: null,
+    };
+  }
+  if (Array.isArray(data.rgb_color)) {
+    return { color_mode: colorMode, rgb_color: data.rgb_color };
+  }
+  if (typeof data.color_name === "string") {
+    return {
+      color_mode: colorMode,
+      rgb_color:
+        SIMULATED_COLOR_NAMES[data.color_name] ?? SIMULATED_COLOR_NAMES.white,
+    };
+  }
+  return { color_mode: a.color_mode ?? supportedColorModes[0] ?? "brightness" };
+}
+
+/**
+ * Roughly what Home Assistant does to an entity's state when the service runs on it
+ */
+export function simulateService(
+  domain: string,
+  service: string,
+  current: HassEntityState,
+  data: Record<string, unknown>,
+): HassEntityState {
+  const { s, a } = current;
+  const isOn = s !== "off";
+  switch (`${domain}.${service}`) {
+    case "light.turn_on":
+    case "light.turn_off":
+    case "light.toggle": {
+      const turnOn =
+        service === "turn_on" || (service === "toggle" && s !== "on");
+      if (!turnOn) {
+        return {
+          s: "off",
+          a: { ...a, color_mode: null, brightness: null, effect: null },
+        };
+      }
+      return {
+        s: "on",
+        a: {
+          ...a,
+          ...getLightColorAttributes(a, data),
+          brightness: data.brightness ?? a.brightness ?? 255,
+          ...(typeof data.effect === "string" && { effect: data.effect }),
+        },
+      };
+    }
+    case "switch.turn_on":
+    case "fan.turn_on":
+      return { s: "on", a };
+    case "switch.turn_off":
+    case "fan.turn_off":
+      return { s: "off", a };
+    case "switch.toggle":
+    case "fan.toggle":
+      return { s: isOn ? "off" : "on", a };
+    case "fan.set_percentage":
+      return {
+        s: data.percentage === 0 ? "off" : "on",
+        a: { ...a, percentage: data.percentage },
+      };
+    case "cover.open_cover":
+      return { s: "open", a: { ...a, current_position: 100 } };
+    case "cover.close_cover":
+      return { s: "closed", a: { ...a, current_position: 0 } };
+    case "cover.set_cover_position":
+      return {
+        s: data.position === 0 ? "closed" : "open",
+        a: { ...a, current_position: data.position },
+      };
+    case "climate.turn_on":
+      return { s: "heat", a };
+    case "climate.turn_off":
+      return { s: "off", a: { ...a, hvac_action: "off" } };
+    case "climate.set_temperature":
+      return { s, a: { ...a, temperature: data.temperature } };
+    case "climate.set_hvac_mode":
+      return { s: String(data.hvac_mode), a };
+    case "media_player.turn_on":
+      return { s: "idle", a };
+    case "media_player.turn_off":
+      return { s: "off", a };
+    case "media_player.media_play":
+      return { s: "playing", a };
+    case "media_player.media_pause":
+      return { s: "paused", a };
+    case "media_player.volume_set":
+      return { s, a: { ...a, volume_level: data.volume_level } };
+    case "lock.lock":
+      return { s: "locked", a };
+    case "lock.unlock":
+      return { s: "unlocked", a };
+    default:
+      // e.g. cover.stop_cover, nothing moves in the fake world
+      return current;
+  }
+}
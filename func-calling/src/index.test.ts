@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type OpenAI from "openai";
+import { FakeHomeAssistantServer } from "./hass-ws-client/fake-server";
+
+type CompletionRequest = OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
+
+// Matches MAX_TOOL_ROUNDS in index.ts, the last round is the extra one without tools
+const MAX_REQUESTS_PER_COMMAND = 6;
+
+let server: FakeHomeAssistantServer;
+let openAi: ReturnType<typeof Bun.serve>;
+let cli: ChildProcessWithoutNullStreams;
+let directory: string;
+let output = "";
+let requests: CompletionRequest[] = [];
+// Answers the CLI's chat completion requests in place of the model
+let reply: (request: CompletionRequest) => OpenAI.Chat.ChatCompletionMessage;
+
+function toolCall(id: string, name: string, args: Record<string, unknown>) {
+  return {
+    role: "assistant" as const,
+    content: null,
+    refusal: null,
+    tool_calls: [
+      {
+        id,
+        type: "function" as const,
+        function: { name, arguments: JSON.stringify(args) },
+      },
+    ],
+  };
+}
+
+function text(content: string) {
+  return { role: "assistant" as const, content, refusal: null };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 10_000) {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error(`Timed out, CLI output:\n${output}`);
+    }
+    await Bun.sleep(20);
+  }
+}
+
+const countPrompts = () => output.split("Enter your command").length - 1;
+
+/**
+ * Enters a command and waits until the CLI prints the model's final reply
+ */
+async function runCommand(command: string, finalReply: string) {
+  requests = [];
+  const replies = output.split(finalReply).length;
+  cli.stdin.write(`${command}\n`);
+  await waitFor(() => output.split(finalReply).length > replies);
+}
+
+beforeAll(async () => {
+  server = new FakeHomeAssistantServer();
+  await server.start();
+  openAi = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const request = (await req.json()) as CompletionRequest;
+      requests.push(request);
+      return Response.json({
+        id: `completion-${requests.length}`,
+        object: "chat.completion",
+        created: 0,
+        model: request.model,
+        choices: [
+          {
+            index: 0,
+            finish_reason: "stop",
+            logprobs: null,
+            message: reply(request),
+          },
+        ],
+      });
+    },
+  });
+  directory = mkdtempSync(join(tmpdir(), "func-calling-"));
+  cli = spawn(
+    process.execPath,
+    ["run", fileURLToPath(new URL("./index.ts", import.meta.url))],
+    {
+      cwd: directory,
+      env: {
+        PATH: process.env.PATH ?? "",
+        OPEN_AI_API_KEY: "test-key",
+        OPENAI_BASE_URL: `http://localhost:${openAi.port}/v1`,
+        HOME_ASSISTANT_HOST: server.host,
+        HOME_ASSISTANT_TOKEN: "fake-token",
+        HOME_ASSISTANT_SECURE: "false",
+        HOME_ASSISTANT_SCHEDULE_PATH: join(directory, "scheduled-actions.json"),
+        HOME_ASSISTANT_SCENES_PATH: join(directory, "scenes.json"),
+      },
+    },
+  );
+  cli.stdout.on("data", (data) => (output += data));
+  cli.stderr.on("data", (data) => (output += data));
+  await waitFor(() => countPrompts() > 0);
+});
+
+afterAll(async () => {
+  cli?.kill();
+  openAi?.stop(true);
+  await server.stop();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("function calling CLI", () => {
+  test("sends tool results back to the model until it replies", async () => {
+    reply = (request) =>
+      request.messages.some((message) => message.role === "tool")
+        ? text("The office lights are on.")
+        : toolCall("call-1", "control_light", {
+            target: "office",
+            state: "on",
+          });
+    server.setEntityState("light.office_ceiling", {
+      s: "off",
+      a: { friendly_name: "Office Ceiling", brightness: null },
+    });
+
+    await runCommand("turn on the office", "The office lights are on.");
+    expect(requests).toHaveLength(2);
+    const toolMessage = requests[1].messages.find(
+      (message) => message.role === "tool",
+    ) as OpenAI.Chat.ChatCompletionToolMessageParam;
+    expect(toolMessage.tool_call_id).toBe("call-1");
+    expect(toolMessage.content).toContain("light.office_ceiling");
+    expect(server.serviceCalls.at(-1)).toMatchObject({
+      domain: "light",
+      service: "turn_on",
+    });
+  });
+
+  test("stops calling tools after the last round", async () => {
+    // A model that never stops looking things up, unless it can't call tools
+    reply = (request) =>
+      request.tool_choice === "none"
+        ? text("I couldn't find what you asked for.")
+        : toolCall(`call-${requests.length}`, "find_lights", { query: "x" });
+
+    await runCommand("find the lights", "I couldn't find what you asked for.");
+    expect(requests).toHaveLength(MAX_REQUESTS_PER_COMMAND);
+    expect(requests.map((request) => request.tool_choice)).toEqual([
+      ...Array(MAX_REQUESTS_PER_COMMAND - 1).fill("auto"),
+      "none",
+    ]);
+    // Every tool call of the earlier rounds was answered
+    const { messages } = requests.at(-1)!;
+    const commandMessages = messages.slice(
+      messages.findLastIndex((message) => message.role === "user"),
+    );
+    expect(
+      commandMessages.filter((message) => message.role === "tool"),
+    ).toHaveLength(MAX_REQUESTS_PER_COMMAND - 1);
+  });
+});
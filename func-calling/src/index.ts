@@ -1,9 +1,42 @@
 import OpenAI from "openai";
-import { HomeAssistantWebSocketClient } from "./hass-ws-client/client";
+import {
+  type HassServiceCall,
+  HomeAssistantWebSocketClient,
+} from "./hass-ws-client/client";
 import invariant from "tiny-invariant";
 import inquirer from "inquirer";
+import { fileURLToPath } from "node:url";
 import { DataManager } from "./data-manager/data-manager";
-import { dashboardConfigs } from "./data-manager/config";
+import {
+  getConfigPath,
+  getDefaultConfig,
+  getScenesPath,
+  getSchedulePath,
+  isDryRunEnabled,
+  loadConfig,
+  watchConfig,
+} from "./data-manager/config";
+import {
+  EntityTypes,
+  UNASSIGNED_AREA_ID,
+  type Area,
+  type BrightnessCommandResult,
+  type Light,
+  type LightCommandResult,
+  type Scene,
+} from "./data-manager/data";
+import {
+  type TargetCandidate,
+  type TargetResolution,
+} from "./data-manager/resolver";
+import { AccessPolicy, PolicyDeniedError } from "./data-manager/policy";
+import type { JournalEntry } from "./data-manager/journal";
+import {
+  Scheduler,
+  type ScheduledAction,
+  type ScheduleRepeat,
+} from "./data-manager/scheduler";
+import { z } from "zod";
 
 // Validate environment variables
 invariant(process.env.OPEN_AI_API_KEY, "OPEN_AI_API_KEY must be set");
@@ -25,33 +58,517 @@ const hassClient = new HomeAssistantWebSocketClient(
   {
     isSecure: process.env.HOME_ASSISTANT_SECURE === "true",
     shouldLog: false,
+    dryRun: isDryRunEnabled(),
   },
 );
-const dataManager = new DataManager(hassClient);
+// Load the area and light group config, reloading it whenever the file changes
+const configPath = getConfigPath();
+const initialConfig = configPath ? loadConfig(configPath) : getDefaultConfig();
+const dataManager = new DataManager(hassClient, {
+  config: initialConfig,
+  scenesPath: getScenesPath(
+    fileURLToPath(new URL("../scenes.json", import.meta.url)),
+  ),
+});
+// Every tool checks the policy before it reads or changes anything
+const policy = new AccessPolicy(initialConfig);
+if (configPath) {
+  watchConfig(configPath, (config) => {
+    dataManager.setConfig(config);
+    policy.setConfig(config);
+    console.error(`Reloaded config from ${configPath}`);
+  });
+}
+if (hassClient.isDryRun) {
+  console.error(
+    "Dry run: service calls are recorded instead of sent to Home Assistant",
+  );
+}
 dataManager.start();
-await new Promise((resolve) => setTimeout(resolve, 2000));
+await dataManager.ready(30_000);
+// Delayed and recurring light actions, kept next to the package unless configured otherwise
+const scheduler = new Scheduler(
+  getSchedulePath(
+    fileURLToPath(new URL("../scheduled-actions.json", import.meta.url)),
+  ),
+  async (action) => {
+    const { result } = await dataManager.runAction("scheduler", () =>
+      switchTarget(action.target, action.state),
+    );
+    return result;
+  },
+);
+await scheduler.start();
+
+const deviceActions = [
+  "turn_on",
+  "turn_off",
+  "open",
+  "close",
+  "stop",
+  "set_position",
+  "set_temperature",
+  "set_fan_speed",
+  "play",
+  "pause",
+  "set_volume",
+  "lock",
+  "unlock",
+] as const;
 
 const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
   {
     type: "function",
     function: {
       name: "control_light",
-      description: "Control a light in Home Assistant (turn on/off)",
+      description:
+        "Control a light in Home Assistant (turn on/off). If the target is ambiguous the candidates are returned instead, ask the user to pick one",
+      parameters: {
+        type: "object",
+        properties: {
+          target: {
+            type: "string",
+            description: `An area, a floor, a light group or a single light in the user's words (e.g., "office", "lounge", "upstairs", "kitchen lights", "office lamp"), an area ID, an entity ID, or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+          },
+          state: {
+            type: "string",
+            enum: ["on", "off"],
+            description: "Whether to turn the light on or off",
+          },
+        },
+        required: ["target", "state"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "set_brightness",
+      description:
+        'Set the brightness of an area, a floor, a light group or a single light, either to a percentage or relative to the current brightness of each light (e.g., "dim the office by 20%" is relative -20). Relative changes are clamped so lights never turn off, 0 in absolute mode turns them off. If the target is ambiguous the candidates are returned instead, ask the user to pick one',
+      parameters: {
+        type: "object",
+        properties: {
+          target: {
+            type: "string",
+            description: `An area, a floor, a light group or a single light in the user's words (e.g., "office", "lounge", "upstairs", "kitchen lights", "office lamp"), an area ID, an entity ID, or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+          },
+          brightness: {
+            type: "number",
+            description:
+              "The brightness percentage (0-100) in absolute mode, the change in percentage points (-100 to 100) in relative mode",
+          },
+          mode: {
+            type: ["string", "null"],
+            enum: ["absolute", "relative", null],
+            description:
+              "absolute sets every light to the brightness, relative adds it to each light's current brightness, null for absolute",
+          },
+        },
+        required: ["target", "brightness", "mode"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "set_light_color",
+      description:
+        "Set the color, white color temperature or effect of the lights in an area, or of a single light. Provide exactly one of color, kelvin or effect",
       parameters: {
         type: "object",
         properties: {
           areaId: {
             type: "string",
+            description: `The area ID of the lights in Home Assistant (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+          },
+          entityId: {
+            type: ["string", "null"],
             description:
-              "The area ID of the light in Home Assistant (e.g., office, kitchen)",
+              "A single light to change (e.g., light.living_room_ceiling), null to change every light in the area",
+          },
+          color: {
+            type: ["string", "null"],
+            description:
+              'A color name (e.g., "red", "light blue") or hex code (e.g., #ff8800), otherwise null',
+          },
+          kelvin: {
+            type: ["number", "null"],
+            description:
+              "A white color temperature in kelvin (e.g., 2700 warm, 6500 cool), otherwise null",
+          },
+          effect: {
+            type: ["string", "null"],
+            description:
+              'A light effect supported by the light (e.g., "colorloop"), otherwise null',
+          },
+          transition: {
+            type: ["number", "null"],
+            description: "Seconds to fade to the new color, or null",
+          },
+        },
+        required: [
+          "areaId",
+          "entityId",
+          "color",
+          "kelvin",
+          "effect",
+          "transition",
+        ],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "control_floor_lights",
+      description:
+        "Turn all lights on a floor in Home Assistant on or off (e.g., everything upstairs). If the floor is ambiguous the candidates are returned instead, ask the user to pick one",
+      parameters: {
+        type: "object",
+        properties: {
+          floor: {
+            type: "string",
+            description:
+              'The floor in the user\'s words (e.g., "upstairs", "ground floor", "downstairs") or its floor ID',
           },
           state: {
             type: "string",
             enum: ["on", "off"],
-            description: "Whether to turn the light on or off",
+            description: "Whether to turn the lights on or off",
+          },
+        },
+        required: ["floor", "state"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "save_scene",
+      description:
+        "Save the current on/off state, brightness and color of every light in an area as a named scene, so it can be restored later",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description:
+              'A name to restore the scene by later (e.g., "before the meeting")',
+          },
+          areaId: {
+            type: "string",
+            description: `The area ID whose lights to capture (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+          },
+          storage: {
+            type: ["string", "null"],
+            enum: ["local", "home_assistant", null],
+            description:
+              'Where to keep the scene, "home_assistant" also creates it as a scene in Home Assistant. null for local',
+          },
+        },
+        required: ["name", "areaId", "storage"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "apply_scene",
+      description:
+        "Restore the lights of an area to a previously saved scene, or apply a scene from Home Assistant",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description:
+              "The name or ID of a saved scene or a Home Assistant scene (e.g., scene.movie_night)",
+          },
+        },
+        required: ["name"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_scenes",
+      description:
+        "List the saved scenes with the light states they restore, and the scenes in Home Assistant with the entities they set",
+      parameters: {
+        type: "object",
+        properties: {
+          areaId: {
+            type: ["string", "null"],
+            description:
+              "Only list scenes of this area ID, null for every scene",
           },
         },
-        required: ["areaId", "state"],
+        required: ["areaId"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "schedule_action",
+      description:
+        "Turn lights on or off later or on a schedule (e.g., in 30 minutes, at 07:00, every weekday at 18:30). Provide exactly one of delayMinutes or time. If the target is ambiguous the candidates are returned instead, ask the user to pick one",
+      parameters: {
+        type: "object",
+        properties: {
+          target: {
+            type: "string",
+            description: `An area, a floor, a light group or a single light in the user's words (e.g., "office", "upstairs", "kitchen lights", "office lamp"), an area ID or an entity ID`,
+          },
+          state: {
+            type: "string",
+            enum: ["on", "off"],
+            description: "Whether to turn the lights on or off",
+          },
+          delayMinutes: {
+            type: ["number", "null"],
+            description: "Run once after this many minutes, otherwise null",
+          },
+          time: {
+            type: ["string", "null"],
+            description:
+              "Local time as HH:MM (e.g., 07:00), the next occurrence, otherwise null",
+          },
+          repeat: {
+            type: ["string", "null"],
+            enum: ["once", "daily", "weekdays", "weekends", null],
+            description: "Repeat at time on these days, null for once",
+          },
+        },
+        required: ["target", "state", "delayMinutes", "time", "repeat"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_scheduled_actions",
+      description:
+        "List the pending scheduled light actions, the next due first",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: [],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "cancel_scheduled_action",
+      description: "Cancel a scheduled light action by its ID",
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "The ID of a scheduled action",
+          },
+        },
+        required: ["id"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_recent_actions",
+      description:
+        "List the most recent actions, newest first: which tool asked, the commands sent, the previous state of the affected lights and the outcome",
+      parameters: {
+        type: "object",
+        properties: {
+          limit: {
+            type: ["number", "null"],
+            description: "How many actions to list, null for 10",
+          },
+        },
+        required: ["limit"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "undo",
+      description:
+        'Undo an action by restoring the lights it changed to their previous state (e.g., when the user says "undo that")',
+      parameters: {
+        type: "object",
+        properties: {
+          actionId: {
+            type: ["number", "null"],
+            description:
+              "The ID of an action from get_recent_actions, null to undo the last action",
+          },
+        },
+        required: ["actionId"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_areas",
+      description:
+        "List the areas with how many lights they have, how many are on, their average brightness and temperature",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: [],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_area_state",
+      description:
+        "Get the state of an area and its lights: on/off, brightness percentage, color and availability",
+      parameters: {
+        type: "object",
+        properties: {
+          areaId: {
+            type: "string",
+            description: `The area ID in Home Assistant (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+          },
+        },
+        required: ["areaId"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_light_state",
+      description:
+        "Get the state of a single light: on/off, brightness percentage, color and availability",
+      parameters: {
+        type: "object",
+        properties: {
+          entityId: {
+            type: "string",
+            description: "The entity ID of the light (e.g., light.desk_lamp)",
+          },
+        },
+        required: ["entityId"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "find_lights",
+      description:
+        'Find lights by state, area or name across all areas (e.g., "which lights are still on?"). Check the current state with it before acting',
+      parameters: {
+        type: "object",
+        properties: {
+          state: {
+            type: ["string", "null"],
+            enum: ["on", "off", "unavailable", null],
+            description: "Only lights in this state, null for any state",
+          },
+          areaId: {
+            type: ["string", "null"],
+            description: "Only lights in this area ID, null for every area",
+          },
+          query: {
+            type: ["string", "null"],
+            description:
+              'Only lights whose name, entity ID or area name contains this (e.g., "lamp"), null for any name',
+          },
+        },
+        required: ["state", "areaId", "query"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_area_devices",
+      description:
+        "Get the current state of every device in an area: lights, switches, fans, covers (e.g. garage doors), thermostats, media players, locks and sensors (e.g. temperature)",
+      parameters: {
+        type: "object",
+        properties: {
+          areaId: {
+            type: "string",
+            description: `The area ID in Home Assistant (e.g., office, garage), or "${UNASSIGNED_AREA_ID}" for devices without an area`,
+          },
+        },
+        required: ["areaId"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "control_device",
+      description:
+        "Control a switch, fan, cover, thermostat, media player or lock in Home Assistant",
+      parameters: {
+        type: "object",
+        properties: {
+          entityId: {
+            type: "string",
+            description:
+              "The entity ID of the device (e.g., cover.garage_door, climate.office_thermostat)",
+          },
+          action: {
+            type: "string",
+            enum: deviceActions,
+            description:
+              "turn_on/turn_off for switches, fans, media players and thermostats; open/close/stop/set_position for covers; set_temperature for thermostats; set_fan_speed for fans; play/pause/set_volume for media players; lock/unlock for locks",
+          },
+          value: {
+            type: ["number", "null"],
+            description:
+              "Required for set_position (0-100), set_temperature (degrees), set_fan_speed (0-100) and set_volume (0-100), otherwise null",
+          },
+        },
+        required: ["entityId", "action", "value"],
         additionalProperties: false,
       },
       strict: true,
@@ -59,70 +576,845 @@ const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
   },
 ];
 
-// Get list of available area IDs
-const availableAreaIds = dashboardConfigs
-  .map((config) => config.areaId)
-  .join(", ");
+// Get list of exposed area IDs with their display names
+function getAvailableAreaIds() {
+  return dataManager
+    .getExposedAreas()
+    .map((area) => `${area.id} (${area.name})`)
+    .join(", ");
+}
+
+// Rebuilt for every command, so config reloads and registry changes reach the model
+function getSystemPrompt() {
+  const availableLightGroups = dataManager
+    .getLightGroups()
+    .map((group) => `${group.id} (${group.name})`)
+    .join(", ");
+  const availableFloors = dataManager.data.floors
+    .map((floor) => [floor.id, floor.name, ...floor.aliases].join(" / "))
+    .join(", ");
+  return `Available area IDs in the system are: ${getAvailableAreaIds()}. If the user's request doesn't specify an area, ask them to specify one from this list. control_light, set_brightness and schedule_action also accept the user's own wording for an area, floor, light or light group, and control_floor_lights for a floor; when they return candidates, ask the user which one they mean. Available light groups are: ${availableLightGroups || "none"}. Available floors (ID / name / aliases) are: ${availableFloors || "none"}. To answer questions about the current state, or to check it before acting, use list_areas, get_area_state, get_light_state and find_lights.`;
+}
 
 // Initialize chat history for OpenAI
 const chatHistory: OpenAI.Chat.ChatCompletionMessageParam[] = [
   {
     role: "system",
-    content: `Available area IDs in the system are: ${availableAreaIds}. If the user's request doesn't specify an area, ask them to specify one from this list.`,
+    content: getSystemPrompt(),
   },
 ];
 
-async function controlLight(params: {
-  areaId: string;
+/**
+ * Reports the outcome for every light, e.g. "2 of 3 light(s) in office are off" followed by one line per light
+ */
+function describeLightResults(
+  results: LightCommandResult[],
+  state: "on" | "off",
+  location: string,
+) {
+  if (results.length === 0) {
+    return `There are no lights ${location}`;
+  }
+  const succeeded = results.filter(
+    (result) => result.outcome === "changed" || result.outcome === "already",
+  );
+  const lines = results.map(
+    (result) =>
+      `- ${result.entityId} (${result.name}): ${result.outcome}${result.error ? ` (${result.error})` : ""}`,
+  );
+  return [
+    `${succeeded.length} of ${results.length} light(s) ${location} are ${state}`,
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Reports the outcome for every light, e.g. "2 of 3 light(s) in office are at the new brightness" followed
+ * by one line per light with its brightness before and after
+ */
+function describeBrightnessResults(
+  results: BrightnessCommandResult[],
+  location: string,
+) {
+  if (results.length === 0) {
+    return `There are no lights ${location}`;
+  }
+  const succeeded = results.filter(
+    (result) => result.outcome === "changed" || result.outcome === "already",
+  );
+  const lines = results.map((result) => {
+    const change =
+      result.outcome === "unavailable"
+        ? ""
+        : ` ${result.previousBrightnessPercentage}% -> ${result.brightnessPercentage}%`;
+    return `- ${result.entityId} (${result.name}): ${result.outcome}${change}${result.error ? ` (${result.error})` : ""}`;
+  });
+  return [
+    `${succeeded.length} of ${results.length} light(s) ${location} are at the new brightness`,
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Lists the service calls a tool call would have made in dry-run mode, e.g. "- light.turn_on {"brightness":128} on {"entity_id":"light.desk_lamp"}"
+ */
+function describeDryRun(calls: HassServiceCall[]) {
+  const lines = calls.map(
+    (call) =>
+      `- ${call.domain}.${call.service} ${JSON.stringify(call.serviceData)}${call.target ? ` on ${JSON.stringify(call.target)}` : ""}`,
+  );
+  return [
+    "Dry run: nothing was sent to Home Assistant, the outcome above is simulated. It would have received:",
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Lists the candidates to choose from when a target didn't resolve to a single area, floor or light
+ */
+function describeUnresolvedTarget(resolution: TargetResolution) {
+  if (resolution.candidates.length === 0) {
+    throw new Error(`No area, floor or light matches "${resolution.query}"`);
+  }
+  const candidates = resolution.candidates.map(
+    (candidate) =>
+      `- ${candidate.id} (${candidate.type} "${candidate.name}"${candidate.areaId ? ` in ${candidate.areaId}` : ""})`,
+  );
+  return [
+    `"${resolution.query}" is ambiguous, ask the user which one they mean:`,
+    ...candidates,
+  ].join("\n");
+}
+
+// The entity and its area as the policy sees them, unknown entities are reported by the DataManager
+function getPolicyEntities(entityId: string) {
+  return [
+    { entityId, areaId: dataManager.getEntity(entityId)?.areaId ?? null },
+  ];
+}
+
+type LightTarget = Pick<TargetCandidate, "type" | "id" | "name">;
+
+function assertCanSwitch(target: LightTarget, state: "on" | "off") {
+  assertCanChangeTarget(state === "on" ? "turn_on" : "turn_off", target);
+}
+
+function assertCanChangeTarget(action: string, target: LightTarget) {
+  if (target.type === "light") {
+    policy.assertCanChange(action, getPolicyEntities(target.id));
+  } else if (target.type === "group") {
+    policy.assertCanChange(action, dataManager.getLightGroupLights(target.id));
+  } else if (target.type === "floor") {
+    policy.assertCanChange(
+      action,
+      dataManager.getFloorLights(target.id),
+      dataManager.getFloorAreas(target.id).map((area) => area.id),
+    );
+  } else {
+    policy.assertCanChange(action, dataManager.getLights(target.id), [
+      target.id,
+    ]);
+  }
+}
+
+/**
+ * Switches a resolved area, light, light group or floor, used by control_light, control_floor_lights and
+ * scheduled actions
+ */
+async function switchTarget(target: LightTarget, state: "on" | "off") {
+  assertCanSwitch(target, state);
+  if (target.type === "light") {
+    const result = await dataManager.switchLight(target.id, state);
+    return describeLightResults([result], state, `named ${target.name}`);
+  }
+  if (target.type === "group") {
+    const results =
+      state === "on"
+        ? await dataManager.turnOnLightGroup(target.id)
+        : await dataManager.turnOffLightGroup(target.id);
+    return describeLightResults(results, state, `in group ${target.name}`);
+  }
+  if (target.type === "floor") {
+    const results =
+      state === "on"
+        ? await dataManager.turnOnAllLightsOnFloor(target.id)
+        : await dataManager.turnOffAllLightsOnFloor(target.id);
+    return describeLightResults(results, state, `on floor ${target.name}`);
+  }
+  const results =
+    state === "on"
+      ? await dataManager.turnOnAllLights(target.id)
+      : await dataManager.turnOffAllLights(target.id);
+  return describeLightResults(results, state, `in ${target.id}`);
+}
+
+async function controlLight(params: { target: string; state: "on" | "off" }) {
+  const resolution = dataManager.resolveTarget(params.target);
+  if (!resolution.match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  return switchTarget(resolution.match, params.state);
+}
+
+async function setBrightness(params: {
+  target: string;
+  brightness: number;
+  mode: "absolute" | "relative" | null;
+}) {
+  const resolution = dataManager.resolveTarget(params.target);
+  const { match } = resolution;
+  if (!match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  const relative = params.mode === "relative";
+  if (!relative && params.brightness < 0) {
+    throw new Error("An absolute brightness must be between 0 and 100");
+  }
+  // Setting the brightness to 0 turns the lights off, e.g. allowed during quiet hours
+  const action =
+    !relative && params.brightness === 0 ? "turn_off" : "set_brightness";
+  const options = { relative };
+  if (match.type === "light") {
+    policy.assertCanChange(action, getPolicyEntities(match.id));
+    const result = await dataManager.setLightBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults([result], `named ${match.name}`);
+  }
+  if (match.type === "group") {
+    policy.assertCanChange(action, dataManager.getLightGroupLights(match.id));
+    const results = await dataManager.setLightGroupBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults(results, `in group ${match.name}`);
+  }
+  if (match.type === "floor") {
+    policy.assertCanChange(
+      action,
+      dataManager.getFloorLights(match.id),
+      dataManager.getFloorAreas(match.id).map((area) => area.id),
+    );
+    const results = await dataManager.setAllLightsOnFloorBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults(results, `on floor ${match.name}`);
+  }
+  policy.assertCanChange(action, dataManager.getLights(match.id), [match.id]);
+  const results = await dataManager.setAllLightsBrightness(
+    match.id,
+    params.brightness,
+    options,
+  );
+  return describeBrightnessResults(results, `in ${match.id}`);
+}
+
+async function controlFloorLights(params: {
+  floor: string;
   state: "on" | "off";
 }) {
-  if (params.state === "on") {
-    await dataManager.turnOnAllLights(params.areaId);
+  const resolution = dataManager.resolveTarget(params.floor, {
+    types: ["floor"],
+  });
+  if (!resolution.match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  return switchTarget(resolution.match, params.state);
+}
+
+async function setLightColor(params: {
+  areaId: string;
+  entityId: string | null;
+  color: string | null;
+  kelvin: number | null;
+  effect: string | null;
+  transition: number | null;
+}) {
+  const { areaId, entityId, color, kelvin, effect } = params;
+  const options = { transition: params.transition ?? undefined };
+  const given = [color, kelvin, effect].filter((value) => value !== null);
+  if (given.length !== 1) {
+    throw new Error("Provide exactly one of color, kelvin or effect");
+  }
+  const change =
+    color !== null
+      ? `color ${color}`
+      : kelvin !== null
+        ? `color temperature ${kelvin}K`
+        : `effect ${effect}`;
+  if (entityId) {
+    policy.assertCanChange("set_color", getPolicyEntities(entityId));
+    if (color !== null) {
+      await dataManager.setColor(entityId, color, options);
+    } else if (kelvin !== null) {
+      await dataManager.setColorTemperature(entityId, kelvin, options);
+    } else if (effect !== null) {
+      await dataManager.setEffect(entityId, effect, options);
+    }
+    return `Set ${entityId} to ${change}`;
+  }
+  policy.assertCanChange("set_color", dataManager.getLights(areaId), [areaId]);
+  const lights =
+    color !== null
+      ? await dataManager.setAllLightsColor(areaId, color, options)
+      : kelvin !== null
+        ? await dataManager.setAllLightsColorTemperature(
+            areaId,
+            kelvin,
+            options,
+          )
+        : await dataManager.setAllLightsEffect(areaId, effect!, options);
+  if (lights.length === 0) {
+    return `No lights in ${areaId} support ${change}`;
+  }
+  const entityIds = lights.map((light) => light.entityId).join(", ");
+  return `Set ${lights.length} light(s) in ${areaId} to ${change}: ${entityIds}`;
+}
+
+async function saveScene(params: {
+  name: string;
+  areaId: string;
+  storage: "local" | "home_assistant" | null;
+}) {
+  // Lights the policy hides are left out of the scene, like they are left out of listings
+  const allowedLights = dataManager
+    .getLights(params.areaId)
+    .filter((light) => policy.isEntityAllowed(light.entityId));
+  if (params.storage === "home_assistant") {
+    // Creating the scene changes Home Assistant, e.g. a read-only client can't
+    policy.assertCanChange("save_scene", allowedLights, [params.areaId]);
   } else {
-    await dataManager.turnOffAllLights(params.areaId);
+    policy.assertCanRead([params.areaId], allowedLights);
+  }
+  const scene = await dataManager.saveScene(params.name, params.areaId, {
+    storage: params.storage ?? undefined,
+    includesLight: (entityId) => policy.isEntityAllowed(entityId),
+  });
+  const lights = scene.lights
+    .map((light) => `${light.entityId} (${light.state})`)
+    .join(", ");
+  return `Saved scene ${scene.id} with ${scene.lights.length} light(s) in ${scene.areaId}: ${lights || "none"}`;
+}
+
+// The scene's own area as well as the current areas of its entities
+function getScenePolicyScope(scene: Scene) {
+  return {
+    areaIds: scene.areaId ? [scene.areaId] : [],
+    entities: scene.entityIds.flatMap(getPolicyEntities),
+  };
+}
+
+async function applyScene(params: { name: string }) {
+  const { areaIds, entities } = getScenePolicyScope(
+    dataManager.getScene(params.name),
+  );
+  policy.assertCanChange("apply_scene", entities, areaIds);
+  const scene = await dataManager.applyScene(params.name);
+  return `Applied scene ${scene.id} to ${scene.entityIds.length} entity(ies)${scene.areaId ? ` in ${scene.areaId}` : ""}`;
+}
+
+function listScenes(params: { areaId: string | null }) {
+  const scenes = dataManager
+    .getScenes(params.areaId ?? undefined)
+    .filter((scene) => {
+      const { areaIds, entities } = getScenePolicyScope(scene);
+      return policy.canRead(areaIds, entities);
+    });
+  return JSON.stringify(scenes);
+}
+
+/**
+ * e.g. "1a2b3c4d: turn off area Office at Mon Oct 19 2026 18:30:00 GMT+0200, repeating weekdays at 18:30"
+ */
+function describeScheduledAction(action: ScheduledAction) {
+  const repeat =
+    action.repeat === "once"
+      ? ""
+      : `, repeating ${action.repeat} at ${action.time}`;
+  return `${action.id}: turn ${action.state} ${action.target.type} ${action.target.name} at ${action.nextRunAt.toString()}${repeat}`;
+}
+
+async function scheduleAction(params: {
+  target: string;
+  state: "on" | "off";
+  delayMinutes: number | null;
+  time: string | null;
+  repeat: ScheduleRepeat | null;
+}) {
+  const resolution = dataManager.resolveTarget(params.target);
+  const { match } = resolution;
+  if (!match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  // Checked again when the action runs, e.g. for quiet hours
+  assertCanSwitch(match, params.state);
+  const action = scheduler.schedule({
+    state: params.state,
+    target: {
+      type: match.type,
+      id: match.id,
+      name: match.name,
+      areaId: match.areaId,
+    },
+    delayMinutes: params.delayMinutes ?? undefined,
+    time: params.time ?? undefined,
+    repeat: params.repeat ?? undefined,
+  });
+  return `Scheduled ${describeScheduledAction(action)}`;
+}
+
+function listScheduledActions() {
+  const actions = scheduler
+    .getActions()
+    .filter(
+      (action) =>
+        action.target.areaId === null ||
+        policy.isAreaAllowed(action.target.areaId),
+    );
+  return JSON.stringify(actions);
+}
+
+/**
+ * Cancelling changes what happens to the target, so it is checked like changing the target now. If the
+ * target was removed since it was scheduled, the area it was in is checked instead.
+ */
+function assertCanCancel(action: ScheduledAction) {
+  try {
+    assertCanChangeTarget("cancel_scheduled_action", action.target);
+  } catch (error) {
+    if (error instanceof PolicyDeniedError) {
+      throw error;
+    }
+    policy.assertCanChange(
+      "cancel_scheduled_action",
+      [],
+      action.target.areaId ? [action.target.areaId] : [],
+    );
+  }
+}
+
+function cancelScheduledAction(params: { id: string }) {
+  assertCanCancel(scheduler.getAction(params.id));
+  const action = scheduler.cancel(params.id);
+  return `Cancelled ${describeScheduledAction(action)}`;
+}
+
+// Actions that touched an entity or area the policy hides are left out, like the entities themselves
+function canReadAction(action: JournalEntry) {
+  const entityIds = new Set([
+    ...action.commands.flatMap((command) => command.entityIds),
+    ...action.previousLights.map((light) => light.entityId),
+  ]);
+  return policy.canRead([], [...entityIds].flatMap(getPolicyEntities));
+}
+
+function getRecentActions(params: { limit: number | null }) {
+  return JSON.stringify(
+    dataManager.getRecentActions(params.limit ?? undefined, canReadAction),
+  );
+}
+
+async function undo(params: { actionId: number | null }) {
+  const action = dataManager.getUndoableAction(
+    params.actionId ?? undefined,
+    canReadAction,
+  );
+  policy.assertCanChange(
+    "undo",
+    action.previousLights.flatMap((light) => getPolicyEntities(light.entityId)),
+  );
+  const restored = await dataManager.undoAction(action.id);
+  const lights = restored
+    .map((light) => `${light.entityId} (${light.state})`)
+    .join(", ");
+  return `Undid action ${action.id} (${action.source}), restored ${restored.length} light(s): ${lights || "none"}`;
+}
+
+function getAreaDevices(params: { areaId: string }) {
+  policy.assertCanRead([params.areaId]);
+  return JSON.stringify({
+    areaId: params.areaId,
+    temperature: dataManager.getTemperature(params.areaId),
+    devices: dataManager
+      .getEntities(params.areaId)
+      .filter((entity) => policy.isEntityAllowed(entity.entityId)),
+  });
+}
+
+// Areas and lights the policy lets the model read, for listing and searching
+function getAllowedAreas() {
+  return dataManager
+    .getExposedAreas()
+    .filter((area) => policy.isAreaAllowed(area.id));
+}
+
+function getAllowedLights() {
+  return getAllowedAreas().flatMap((area) =>
+    area.lights.filter((light) => policy.isEntityAllowed(light.entityId)),
+  );
+}
+
+/**
+ * @returns {number} the average brightness percentage of the lights, off lights count as 0
+ */
+function getAverageBrightness(lights: Light[]) {
+  if (lights.length === 0) {
+    return 0;
+  }
+  return (
+    lights.reduce((acc, light) => acc + (light.brightnessPercentage || 0), 0) /
+    lights.length
+  );
+}
+
+function getAreaSummary(area: Area) {
+  const lights = area.lights.filter((light) =>
+    policy.isEntityAllowed(light.entityId),
+  );
+  return {
+    id: area.id,
+    name: area.name,
+    aliases: area.aliases,
+    floorId: area.floorId,
+    lightCount: lights.length,
+    lightsOn: lights.filter((light) => light.state === "on").length,
+    averageBrightness: getAverageBrightness(lights),
+    temperature: dataManager.getTemperature(area.id),
+  };
+}
+
+/**
+ * The state of a light as the read-only tools report it
+ */
+function toLightState(light: Light) {
+  return {
+    entityId: light.entityId,
+    name: light.name,
+    areaId: light.areaId,
+    areaName: light.areaName,
+    state: light.state,
+    isAvailable: light.state !== "unavailable",
+    brightnessPercentage: light.brightnessPercentage,
+    rgbColor: light.rgbColor,
+    colorMode: light.colorMode,
+    colorTemperatureKelvin: light.colorTemperatureKelvin,
+    effect: light.effect,
+    isSimulated: light.isSimulated, // changed by a dry-run command, Home Assistant still reports the old state
+  };
+}
+
+function listAreas() {
+  return JSON.stringify(getAllowedAreas().map(getAreaSummary));
+}
+
+function getAreaState(params: { areaId: string }) {
+  policy.assertCanRead([params.areaId]);
+  return JSON.stringify({
+    ...getAreaSummary(dataManager.getArea(params.areaId)),
+    lights: dataManager
+      .getLights(params.areaId)
+      .filter((light) => policy.isEntityAllowed(light.entityId))
+      .map(toLightState),
+  });
+}
+
+/**
+ * A denied light gets the same error as one that doesn't exist, so callers can't tell which lights exist
+ * @throws {Error} if the light doesn't exist or the policy doesn't allow reading it
+ */
+function getReadableLight(entityId: string): Light {
+  const light = dataManager.getEntity(entityId);
+  if (
+    light?.domain !== EntityTypes.light ||
+    !policy.canRead([], getPolicyEntities(entityId))
+  ) {
+    throw new Error(`Light not found or not accessible: ${entityId}`);
+  }
+  return light;
+}
+
+function getLightState(params: { entityId: string }) {
+  const light = getReadableLight(params.entityId);
+  return JSON.stringify(toLightState(light));
+}
+
+function findLights(params: {
+  state: Light["state"] | null;
+  areaId: string | null;
+  query: string | null;
+}) {
+  if (params.areaId) {
+    policy.assertCanRead([params.areaId]);
   }
+  const query = params.query?.trim().toLowerCase();
+  const lights = getAllowedLights().filter(
+    (light) =>
+      (!params.state || light.state === params.state) &&
+      (!params.areaId || light.areaId === params.areaId) &&
+      (!query ||
+        [light.name, light.entityId, light.areaName].some((value) =>
+          value.toLowerCase().includes(query),
+        )),
+  );
+  return JSON.stringify(lights.map(toLightState));
 }
 
+async function controlDevice(params: {
+  entityId: string;
+  action: (typeof deviceActions)[number];
+  value: number | null;
+}) {
+  const { entityId, action } = params;
+  policy.assertCanChange(action, getPolicyEntities(entityId));
+  const getValue = () => {
+    if (params.value === null) {
+      throw new Error(`Action ${action} requires a value`);
+    }
+    return params.value;
+  };
+  switch (action) {
+    case "turn_on":
+      await dataManager.turnOnEntity(entityId);
+      break;
+    case "turn_off":
+      await dataManager.turnOffEntity(entityId);
+      break;
+    case "open":
+      await dataManager.openCover(entityId);
+      break;
+    case "close":
+      await dataManager.closeCover(entityId);
+      break;
+    case "stop":
+      await dataManager.stopCover(entityId);
+      break;
+    case "set_position":
+      await dataManager.setCoverPosition(entityId, getValue());
+      break;
+    case "set_temperature":
+      await dataManager.setTargetTemperature(entityId, getValue());
+      break;
+    case "set_fan_speed":
+      await dataManager.setFanSpeed(entityId, getValue());
+      break;
+    case "play":
+      await dataManager.playMedia(entityId);
+      break;
+    case "pause":
+      await dataManager.pauseMedia(entityId);
+      break;
+    case "set_volume":
+      await dataManager.setVolume(entityId, getValue());
+      break;
+    case "lock":
+      await dataManager.lock(entityId);
+      break;
+    case "unlock":
+      await dataManager.unlock(entityId);
+      break;
+  }
+  return `Home Assistant accepted ${action} for ${entityId}`;
+}
+
+type ToolHandler = (args: unknown) => string | Promise<string>;
+
+/**
+ * Parses the arguments the model sent with the tool's schema before running the tool
+ * @throws {Error} listing every invalid argument, reported to the model like any other failure
+ */
+function withParsedArguments<T extends z.ZodTypeAny>(
+  schema: T,
+  run: (params: z.infer<T>) => string | Promise<string>,
+): ToolHandler {
+  return (args) => {
+    const result = schema.safeParse(args);
+    if (!result.success) {
+      const issues = result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      );
+      throw new Error(`Invalid arguments, ${issues.join(", ")}`);
+    }
+    return run(result.data);
+  };
+}
+
+// Tool implementations by function name, each returns the tool response for the model
+const toolHandlers: Record<string, ToolHandler> = {
+  control_light: withParsedArguments(
+    z.object({ target: z.string(), state: z.enum(["on", "off"]) }),
+    controlLight,
+  ),
+  set_brightness: withParsedArguments(
+    z.object({
+      target: z.string(),
+      brightness: z.number().min(-100).max(100),
+      mode: z.enum(["absolute", "relative"]).nullable(),
+    }),
+    setBrightness,
+  ),
+  control_floor_lights: withParsedArguments(
+    z.object({ floor: z.string(), state: z.enum(["on", "off"]) }),
+    controlFloorLights,
+  ),
+  set_light_color: withParsedArguments(
+    z.object({
+      areaId: z.string(),
+      entityId: z.string().nullable(),
+      color: z.string().nullable(),
+      kelvin: z.number().nullable(),
+      effect: z.string().nullable(),
+      transition: z.number().min(0).nullable(),
+    }),
+    setLightColor,
+  ),
+  save_scene: withParsedArguments(
+    z.object({
+      name: z.string(),
+      areaId: z.string(),
+      storage: z.enum(["local", "home_assistant"]).nullable(),
+    }),
+    saveScene,
+  ),
+  apply_scene: withParsedArguments(z.object({ name: z.string() }), applyScene),
+  list_scenes: withParsedArguments(
+    z.object({ areaId: z.string().nullable() }),
+    listScenes,
+  ),
+  schedule_action: withParsedArguments(
+    z.object({
+      target: z.string(),
+      state: z.enum(["on", "off"]),
+      delayMinutes: z.number().positive().nullable(),
+      time: z.string().nullable(),
+      repeat: z.enum(["once", "daily", "weekdays", "weekends"]).nullable(),
+    }),
+    scheduleAction,
+  ),
+  list_scheduled_actions: withParsedArguments(
+    z.object({}),
+    listScheduledActions,
+  ),
+  cancel_scheduled_action: withParsedArguments(
+    z.object({ id: z.string() }),
+    cancelScheduledAction,
+  ),
+  get_recent_actions: withParsedArguments(
+    z.object({ limit: z.number().int().positive().nullable() }),
+    getRecentActions,
+  ),
+  undo: withParsedArguments(
+    z.object({ actionId: z.number().int().nullable() }),
+    undo,
+  ),
+  list_areas: withParsedArguments(z.object({}), listAreas),
+  get_area_state: withParsedArguments(
+    z.object({ areaId: z.string() }),
+    getAreaState,
+  ),
+  get_light_state: withParsedArguments(
+    z.object({ entityId: z.string() }),
+    getLightState,
+  ),
+  find_lights: withParsedArguments(
+    z.object({
+      state: z.enum(["on", "off", "unavailable"]).nullable(),
+      areaId: z.string().nullable(),
+      query: z.string().nullable(),
+    }),
+    findLights,
+  ),
+  get_area_devices: withParsedArguments(
+    z.object({ areaId: z.string() }),
+    getAreaDevices,
+  ),
+  control_device: withParsedArguments(
+    z.object({
+      entityId: z.string(),
+      action: z.enum(deviceActions),
+      value: z.number().nullable(),
+    }),
+    controlDevice,
+  ),
+};
+
+async function runToolCall(
+  call: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+) {
+  const handler = toolHandlers[call.function.name];
+  if (!handler) {
+    return `Unknown tool: ${call.function.name}`;
+  }
+  try {
+    // The commands the tool sends are recorded as one action in the journal
+    const { result, recordedServiceCalls } = await dataManager.runAction(
+      call.function.name,
+      () => handler(JSON.parse(call.function.arguments)),
+    );
+    return recordedServiceCalls.length > 0
+      ? `${result}\n\n${describeDryRun(recordedServiceCalls)}`
+      : result;
+  } catch (error) {
+    // The policy's reason already says the call was denied, not that it failed
+    if (error instanceof PolicyDeniedError) {
+      return error.message;
+    }
+    return `Command failed: ${error instanceof Error ? error.message : "Unknown error occurred"}`;
+  }
+}
+
+// The model may chain tool calls, e.g. find_lights before control_light, but not endlessly
+const MAX_TOOL_ROUNDS = 5;
+
 async function processCommand(command: string) {
   try {
+    chatHistory[0] = { role: "system", content: getSystemPrompt() };
+
     // Add user's command to history
     chatHistory.push({
       role: "user",
       content: command,
     });
 
-    const completion = await openAiClient.chat.completions.create({
-      model: "gpt-4",
-      messages: chatHistory,
-      tools: tools,
-    });
+    // Ask again with the tool results until the model replies without calling a tool
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const completion = await openAiClient.chat.completions.create({
+        model: "gpt-4",
+        messages: chatHistory,
+        tools: tools,
+        // In the last round the model has to answer with the results it has
+        tool_choice: round === MAX_TOOL_ROUNDS ? "none" : "auto",
+      });
 
-    const replyText = completion.choices[0].message.content;
-    if (replyText) {
-      console.log("\n🤖 Assistant:", replyText);
-    }
+      const replyText = completion.choices[0].message.content;
+      if (replyText) {
+        console.log("\n🤖 Assistant:", replyText);
+      }
 
-    const toolCalls = completion.choices[0].message.tool_calls;
-    if (toolCalls) {
+      const toolCalls = completion.choices[0].message.tool_calls;
+      if (!toolCalls || toolCalls.length === 0) {
+        // Keep the final reply, so follow-up commands like "and the kitchen too" have context
+        chatHistory.push({ role: "assistant", content: replyText });
+        return;
+      }
       console.log("toolCalls", toolCalls);
-    }
-    if (toolCalls && toolCalls.length > 0) {
-      const call = toolCalls[0];
-      if (call.function.name === "control_light") {
-        const params = JSON.parse(call.function.arguments);
-        await controlLight(params);
-
-        // Add the assistant's message with tool calls to chat history
-        chatHistory.push({
-          role: "assistant",
-          content: replyText,
-          tool_calls: toolCalls,
-        });
-
-        // Add the tool response to chat history
+
+      // Add the assistant's message with tool calls to chat history
+      chatHistory.push({
+        role: "assistant",
+        content: replyText,
+        tool_calls: toolCalls,
+      });
+
+      // Add a tool response for every tool call to chat history
+      for (const call of toolCalls) {
         const toolResponse: OpenAI.Chat.ChatCompletionMessageParam = {
           role: "tool",
-          content: "Command executed successfully",
+          content: await runToolCall(call),
           tool_call_id: call.id,
         };
         chatHistory.push(toolResponse);
@@ -142,7 +1434,7 @@ async function processCommand(command: string) {
 
 async function main() {
   console.log("🏠 Welcome to Home Assistant Light Control!");
-  console.log("Available areas:", availableAreaIds, "\n");
+  console.log("Available areas:", getAvailableAreaIds(), "\n");
 
   while (true) {
     const { command } = await inquirer.prompt([
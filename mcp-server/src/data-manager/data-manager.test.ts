@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { HomeAssistantWebSocketClient } from "../hass-ws-client/client";
+import { FakeHomeAssistantServer } from "../hass-ws-client/fake-server";
+import { DataManager } from "./data-manager";
+
+let server: FakeHomeAssistantServer;
+let dataManager: DataManager;
+
+async function start({ dryRun = false } = {}) {
+  const client = new HomeAssistantWebSocketClient(server.host, "fake-token", {
+    dryRun,
+  });
+  dataManager = new DataManager(client, { confirmTimeoutMs: 1_000 });
+  dataManager.start();
+  await dataManager.ready(5_000);
+}
+
+function getLightStates(areaId: string) {
+  return Object.fromEntries(
+    dataManager.getLights(areaId).map((light) => [light.entityId, light.state]),
+  );
+}
+
+beforeEach(async () => {
+  server = new FakeHomeAssistantServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  await dataManager?.cleanup();
+  await server.stop();
+});
+
+describe("DataManager", () => {
+  test("builds areas and floors from the registries", async () => {
+    await start();
+    expect(dataManager.getArea("office")?.name).toBe("Office");
+    expect(getLightStates("office")).toEqual({
+      "light.office_ceiling": "on",
+      "light.desk_lamp": "unavailable",
+    });
+    expect(
+      dataManager.getFloorAreas("upstairs").map((area) => area.id),
+    ).toEqual(["bedroom", "office"]);
+  });
+
+  test("resolves areas, floors and lights by name or alias", async () => {
+    await start();
+    expect(dataManager.resolveTarget("study").match).toMatchObject({
+      type: "area",
+      id: "office",
+    });
+    expect(dataManager.resolveTarget("first floor").match).toMatchObject({
+      type: "floor",
+      id: "upstairs",
+    });
+    expect(dataManager.resolveTarget("floor lamp").match).toMatchObject({
+      type: "light",
+      id: "light.floor_lamp",
+    });
+  });
+
+  test("switches an area's lights and waits for the new states", async () => {
+    await start();
+    const results = await dataManager.turnOnAllLights("living_room");
+    expect(
+      Object.fromEntries(results.map((r) => [r.entityId, r.outcome])),
+    ).toEqual({
+      "light.living_room_ceiling": "changed",
+      "light.floor_lamp": "already",
+    });
+    expect(getLightStates("living_room")).toEqual({
+      "light.living_room_ceiling": "on",
+      "light.floor_lamp": "on",
+    });
+  });
+
+  test("skips unavailable lights", async () => {
+    await start();
+    const results = await dataManager.turnOffAllLights("office");
+    expect(
+      Object.fromEntries(results.map((r) => [r.entityId, r.outcome])),
+    ).toEqual({
+      "light.office_ceiling": "changed",
+      "light.desk_lamp": "unavailable",
+    });
+  });
+
+  test("records actions in the journal and undoes them", async () => {
+    await start();
+    await dataManager.runAction("test", () =>
+      dataManager.turnOffAllLights("living_room"),
+    );
+    const [action] = dataManager.getRecentActions();
+    expect(action).toMatchObject({ source: "test", outcome: "succeeded" });
+    expect(getLightStates("living_room")["light.floor_lamp"]).toBe("off");
+
+    await dataManager.undoAction();
+    await Bun.sleep(100);
+    expect(getLightStates("living_room")["light.floor_lamp"]).toBe("on");
+    expect(dataManager.getRecentActions()[0].undoOf).toBe(action.id);
+  });
+
+  test("simulates dry-run commands on top of the reported states", async () => {
+    await start({ dryRun: true });
+    const { result, recordedServiceCalls } = await dataManager.runAction(
+      "test",
+      () => dataManager.turnOnAllLights("kitchen"),
+    );
+    expect(result[0].outcome).toBe("changed");
+    expect(server.serviceCalls).toHaveLength(0);
+    expect(recordedServiceCalls).toEqual([
+      {
+        domain: "light",
+        service: "turn_on",
+        serviceData: {},
+        target: { entity_id: "light.kitchen_spots" },
+      },
+    ]);
+    const light = dataManager.getEntity("light.kitchen_spots");
+    expect(light).toMatchObject({ state: "on", isSimulated: true });
+
+    // A state reported by Home Assistant replaces the simulated one
+    server.setEntityState("light.kitchen_spots", {
+      s: "off",
+      a: { friendly_name: "Kitchen Spots", brightness: null },
+    });
+    await Bun.sleep(100);
+    expect(dataManager.getEntity("light.kitchen_spots")).toMatchObject({
+      state: "off",
+      isSimulated: false,
+    });
+  });
+
+  test("reports each concurrent action's own dry-run calls", async () => {
+    await start({ dryRun: true });
+    const [kitchen, bedroom] = await Promise.all([
+      dataManager.runAction("a", () => dataManager.turnOnAllLights("kitchen")),
+      dataManager.runAction("b", () => dataManager.turnOnAllLights("bedroom")),
+    ]);
+    expect(kitchen.recordedServiceCalls.map((call) => call.target)).toEqual([
+      { entity_id: "light.kitchen_spots" },
+    ]);
+    expect(bedroom.recordedServiceCalls.map((call) => call.target)).toEqual([
+      { entity_id: "light.bedside_lamp" },
+    ]);
+  });
+});
@@ -1,10 +1,35 @@
+import EventEmitter from "node:events";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isDeepStrictEqual } from "node:util";
 import {
   EntityTypes,
   getBrightnessPercentage,
   getBrightnessValue,
+  getColorServiceData,
+  getCoverState,
+  getEntityType,
   getLightState,
+  getLockState,
+  getNumber,
   getRBGColor,
+  getSceneId,
+  getSensorValue,
+  getStateOrUnavailable,
+  getString,
+  getStringList,
+  getTimestamp,
+  getVolumePercentage,
+  supportsColor,
+  supportsColorTemperature,
+  UNASSIGNED_AREA_ID,
+  type Area,
+  type BrightnessCommandResult,
+  type Entity,
+  type EntityType,
   type Light,
+  type LightCommandResult,
+  type LightSnapshot,
+  type Scene,
   type HomeAssistantData,
 } from "./data";
 import {
@@ -12,9 +37,316 @@ import {
   type HassDevice,
   type HassEntity,
   type HassEntityState,
+  type HassEntityStateDiff,
+  type HassFloor,
+  type HassLightTurnOnData,
+  type HassServiceCall,
+  type HassServiceData,
+  type HassServiceTarget,
   HomeAssistantWebSocketClient,
 } from "../hass-ws-client/client";
+import { simulateService, toArray } from "../hass-ws-client/simulate";
+import { resolveTarget, type TargetNames } from "./resolver";
+import { getDefaultConfig, type Config } from "./config";
+import { ActionJournal, type JournalEntry } from "./journal";
+import { SceneStore } from "./scene-store";
 
+/**
+ * Changes to the synced data, emitted after the first sync; the first sync only emits synced
+ */
+export type DataManagerEvents = {
+  entityChanged: [{ before: Entity | null; after: Entity | null }]; // any entity, including lights
+  lightChanged: [{ before: Light | null; after: Light | null }]; // before is null for new lights, after for removed ones
+  areaAdded: [Area];
+  areaRemoved: [Area];
+  availabilityChanged: [{ entity: Entity; isAvailable: boolean }];
+  synced: [HomeAssistantData]; // after every full rebuild from the registries
+};
+
+/**
+ * Service data that brings a light back to a snapshot, restoring either its colour temperature or its colour
+ */
+function getLightSnapshotServiceData(
+  snapshot: LightSnapshot,
+): HassLightTurnOnData {
+  const data: HassLightTurnOnData = {
+    brightness: getBrightnessValue(snapshot.brightnessPercentage ?? 100),
+  };
+  if (
+    snapshot.colorMode === "color_temp" &&
+    snapshot.colorTemperatureKelvin !== null
+  ) {
+    data.color_temp_kelvin = snapshot.colorTemperatureKelvin;
+  } else if (snapshot.rgbColor) {
+    data.rgb_color = snapshot.rgbColor;
+  }
+  if (snapshot.effect) {
+    data.effect = snapshot.effect;
+  }
+  return data;
+}
+
+/**
+ * The brightness a light is at in percent, 0 if it is off
+ */
+function getCurrentBrightness(light: Light) {
+  return light.state === "on" ? (light.brightnessPercentage ?? 100) : 0;
+}
+
+/**
+ * A relative change is added to the current brightness in percentage points and never turns a light
+ * off, dimming stops at 1%. Lights that are off stay off when dimmed.
+ */
+function getTargetBrightness(
+  light: Light,
+  brightnessPercentage: number,
+  relative: boolean,
+) {
+  const clamp = (value: number, min: number) =>
+    Math.min(Math.max(Math.round(value), min), 100);
+  if (!relative) {
+    return clamp(brightnessPercentage, 0);
+  }
+  const current = getCurrentBrightness(light);
+  if (current === 0 && brightnessPercentage <= 0) {
+    return 0;
+  }
+  return clamp(current + brightnessPercentage, 1);
+}
+
+function getLightSnapshot(light: Light): LightSnapshot {
+  return {
+    entityId: light.entityId,
+    state: light.state === "on" ? "on" : "off",
+    brightnessPercentage: light.brightnessPercentage,
+    colorMode: light.colorMode,
+    rgbColor: light.rgbColor,
+    colorTemperatureKelvin: light.colorTemperatureKelvin,
+    effect: light.effect,
+  };
+}
+
+/**
+ * Home Assistant also accepts entity_id, device_id, area_id and floor_id in the service data,
+ * this merges them into the target
+ */
+function getFullServiceTarget({ serviceData, target }: HassServiceCall) {
+  const { entity_id, device_id, area_id, floor_id, ...data } = serviceData;
+  return {
+    target: { entity_id, device_id, area_id, floor_id, ...target },
+    data,
+  };
+}
+
+const AREA_ENTITY_KEYS = [
+  "lights",
+  "switches",
+  "fans",
+  "covers",
+  "climates",
+  "mediaPlayers",
+  "locks",
+  "sensors",
+] as const;
+
+const ON_OFF_ENTITY_TYPES: EntityType[] = [
+  EntityTypes.light,
+  EntityTypes.switch,
+  EntityTypes.fan,
+  EntityTypes.mediaPlayer,
+  EntityTypes.climate,
+];
+
+function createUnassignedArea(): Area {
+  return {
+    id: UNASSIGNED_AREA_ID,
+    name: "Unassigned",
+    aliases: [],
+    floorId: null,
+    lights: [],
+    switches: [],
+    fans: [],
+    covers: [],
+    climates: [],
+    mediaPlayers: [],
+    locks: [],
+    sensors: [],
+  };
+}
+
+function addEntityToArea(area: Area, entity: Entity) {
+  switch (entity.domain) {
+    case EntityTypes.light:
+      area.lights.push(entity);
+      break;
+    case EntityTypes.switch:
+      area.switches.push(entity);
+      break;
+    case EntityTypes.fan:
+      area.fans.push(entity);
+      break;
+    case EntityTypes.cover:
+      area.covers.push(entity);
+      break;
+    case EntityTypes.climate:
+      area.climates.push(entity);
+      break;
+    case EntityTypes.mediaPlayer:
+      area.mediaPlayers.push(entity);
+      break;
+    case EntityTypes.lock:
+      area.locks.push(entity);
+      break;
+    case EntityTypes.sensor:
+    case EntityTypes.binarySensor:
+      area.sensors.push(entity);
+      break;
+  }
+}
+
+/**
+ * @param isSimulated - the state comes from the dry-run overlay
+ * @returns {Entity | null} the typed entity or null if the domain is not supported
+ */
+function createEntity(
+  entityId: string,
+  area: Area,
+  device: HassDevice | null,
+  state: HassEntityState,
+  isSimulated = false,
+): Entity | null {
+  const friendlyName = getString(state.a.friendly_name);
+  const base = {
+    areaId: area.id,
+    areaName: area.name,
+    deviceId: device?.id ?? null,
+    deviceName:
+      device?.name_by_user ?? device?.name ?? friendlyName ?? entityId,
+    entityId: entityId,
+    name: friendlyName ?? device?.name ?? entityId,
+    lastChanged: getTimestamp(state.lc),
+    lastUpdated: getTimestamp(state.lu ?? state.lc),
+    isSimulated,
+  };
+  const domain = getEntityType(entityId);
+  switch (domain) {
+    case EntityTypes.light:
+      return {
+        ...base,
+        domain,
+        state: getLightState(state.s),
+        brightnessPercentage: getBrightnessPercentage(state.a.brightness),
+        rgbColor: getRBGColor(state.a.rgb_color),
+        colorMode: getString(state.a.color_mode),
+        supportedColorModes: getStringList(state.a.supported_color_modes),
+        colorTemperatureKelvin: getNumber(state.a.color_temp_kelvin),
+        minColorTemperatureKelvin: getNumber(state.a.min_color_temp_kelvin),
+        maxColorTemperatureKelvin: getNumber(state.a.max_color_temp_kelvin),
+        effect: getString(state.a.effect),
+        effectList: getStringList(state.a.effect_list),
+      };
+    case EntityTypes.switch:
+      return { ...base, domain, state: getLightState(state.s) };
+    case EntityTypes.fan:
+      return {
+        ...base,
+        domain,
+        state: getLightState(state.s),
+        speedPercentage: getNumber(state.a.percentage),
+      };
+    case EntityTypes.cover:
+      return {
+        ...base,
+        domain,
+        state: getCoverState(state.s),
+        positionPercentage: getNumber(state.a.current_position),
+        deviceClass: getString(state.a.device_class),
+      };
+    case EntityTypes.climate:
+      return {
+        ...base,
+        domain,
+        state: getStateOrUnavailable(state.s),
+        currentTemperature: getNumber(state.a.current_temperature),
+        targetTemperature: getNumber(state.a.temperature),
+        hvacAction: getString(state.a.hvac_action),
+      };
+    case EntityTypes.mediaPlayer:
+      return {
+        ...base,
+        domain,
+        state: getStateOrUnavailable(state.s),
+        volumePercentage: getVolumePercentage(state.a.volume_level),
+        isMuted:
+          typeof state.a.is_volume_muted === "boolean"
+            ? state.a.is_volume_muted
+            : null,
+        mediaTitle: getString(state.a.media_title),
+      };
+    case EntityTypes.lock:
+      return { ...base, domain, state: getLockState(state.s) };
+    case EntityTypes.sensor:
+    case EntityTypes.binarySensor:
+      return {
+        ...base,
+        domain,
+        state:
+          getStateOrUnavailable(state.s) === "unavailable"
+            ? "unavailable"
+            : "available",
+        value: getSensorValue(state.s),
+        unit: getString(state.a.unit_of_measurement),
+        deviceClass: getString(state.a.device_class),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Applies a subscribe_entities compact diff the same way the Home Assistant frontend does
+ */
+function applyEntityStateDiff(
+  current: HassEntityState | undefined,
+  diff: HassEntityStateDiff,
+): HassEntityState {
+  const next: HassEntityState = {
+    ...current,
+    s: current?.s ?? "unknown",
+    a: { ...current?.a },
+  };
+  const toAdd = diff["+"];
+  if (toAdd) {
+    if (toAdd.s !== undefined) {
+      next.s = toAdd.s;
+    }
+    if (toAdd.c !== undefined) {
+      next.c = toAdd.c;
+    }
+    if (toAdd.lc !== undefined) {
+      // A state change updates both timestamps
+      next.lc = toAdd.lc;
+      delete next.lu;
+    } else if (toAdd.lu !== undefined) {
+      next.lu = toAdd.lu;
+    }
+    if (toAdd.a) {
+      Object.assign(next.a, toAdd.a);
+    }
+  }
+  const toRemove = diff["-"];
+  if (toRemove) {
+    for (const attribute of toRemove.a) {
+      delete next.a[attribute];
+    }
+  }
+  return next;
+}
+
+/**
+ * Resolves the area the way Home Assistant does: the entity's own area overrides its device's area.
+ * areaId is null if neither is assigned to an area.
+ */
 function getStateEntityDeviceForEntityId(
   entityId: string,
   devices: HassDevice[],
@@ -26,37 +358,117 @@ function getStateEntityDeviceForEntityId(
   if (!entity) {
     throw Error(`Entity not found: ${entityId}`);
   }
-  const device = devices.find((d) => d.id === entity.device_id);
-  if (!device) {
+  // Groups, template entities and helpers have no device
+  const device = entity.device_id
+    ? devices.find((d) => d.id === entity.device_id)
+    : null;
+  if (device === undefined) {
     throw Error(`Device not found: ${entity.device_id} for entity ${entityId}`);
   }
-  return { state, entity, device };
+  const areaId = entity.area_id ?? device?.area_id ?? null;
+  return { state, entity, device, areaId };
 }
 
 export class DataManager {
   private wsClient: HomeAssistantWebSocketClient;
   data: HomeAssistantData;
+  /**
+   * Latest registries and entity states received from Home Assistant
+   */
   incomingData: {
+    floors: HassFloor[] | null;
     areas: HassArea[] | null;
     devices: HassDevice[] | null;
     entities: HassEntity[] | null;
     entityStates: Record<string, HassEntityState> | null;
   } = {
+    floors: null,
     areas: null,
     devices: null,
     entities: null,
     entityStates: null,
   };
+  /**
+   * States simulated for dry-run commands, layered over the ones from Home Assistant until it reports a
+   * change to the entity. incomingData always holds what Home Assistant reported.
+   */
+  private simulatedStates: Record<string, HassEntityState> = {};
+
+  private sceneStore: SceneStore;
+  private journal = new ActionJournal();
+  // The dry-run service calls of the runAction() call that is running, so concurrent actions each get their own
+  private recordedServiceCalls = new AsyncLocalStorage<HassServiceCall[]>();
+  private isReady = false;
+  private readyPromise: Promise<void>;
+  private resolveReady: () => void = () => {};
+  private confirmTimeoutMs: number;
+  private config: Config;
+  /**
+   * Called after every state update, see waitForEntity
+   */
+  private stateListeners = new Set<() => void>();
+  eventEmitter = new EventEmitter<DataManagerEvents>();
 
-  constructor(wsClient: HomeAssistantWebSocketClient) {
+  /**
+   * @param confirmTimeoutMs - how long area commands wait for Home Assistant to report the new state
+   * @param config - exposed areas, display names, aliases, default brightness and light groups
+   * @param scenesPath - the JSON file saved scenes are kept in, null keeps them in memory only
+   */
+  constructor(
+    wsClient: HomeAssistantWebSocketClient,
+    {
+      confirmTimeoutMs = 5_000,
+      config = getDefaultConfig(),
+      scenesPath = null,
+    }: {
+      confirmTimeoutMs?: number;
+      config?: Config;
+      scenesPath?: string | null;
+    } = {},
+  ) {
     this.wsClient = wsClient;
+    this.confirmTimeoutMs = confirmTimeoutMs;
+    this.config = config;
+    this.sceneStore = new SceneStore(scenesPath);
     this.data = {
+      floors: [],
       areas: [],
     };
+    this.readyPromise = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+  }
+
+  /**
+   * Resolves once areas, devices, entities and entity states have been synced for the first time
+   * @param timeoutMs - reject if the first sync takes longer than this
+   */
+  ready(timeoutMs?: number) {
+    if (this.isReady || timeoutMs === undefined) {
+      return this.readyPromise;
+    }
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(
+          new Error(
+            `Home Assistant data not synced after ${timeoutMs}ms (connection: ${this.wsClient.connectionState})`,
+          ),
+        );
+      }, timeoutMs);
+      this.readyPromise.then(() => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
   }
 
   start() {
     this.wsClient.connect();
+    this.wsClient.eventEmitter.on("floors", (floors) => {
+      // Floors are optional (older Home Assistant versions have none), so they don't hold up the sync
+      this.incomingData.floors = floors;
+      this.updateFloors();
+    });
     this.wsClient.eventEmitter.on("areas", (areas) => {
       this.incomingData.areas = areas;
       this.syncData();
@@ -71,33 +483,265 @@ export class DataManager {
     });
     this.wsClient.eventEmitter.on("entity_states", (entitiesMap) => {
       this.incomingData.entityStates = entitiesMap;
+      this.simulatedStates = {};
       this.syncData();
     });
+    this.wsClient.eventEmitter.on("entity_added", (entitiesMap) => {
+      const entityStates = this.incomingData.entityStates;
+      if (!entityStates) {
+        return;
+      }
+      for (const entityId of Object.keys(entitiesMap)) {
+        const before = this.getEntity(entityId);
+        entityStates[entityId] = entitiesMap[entityId];
+        delete this.simulatedStates[entityId];
+        this.updateEntityState(entityId);
+        this.emitEntityChange(before, this.getEntity(entityId));
+      }
+      this.notifyStateListeners();
+    });
     this.wsClient.eventEmitter.on("entity_state_change", (changes) => {
-      if (this.incomingData.entityStates) {
-        for (const entityId of Object.keys(changes)) {
-          const change = changes[entityId];
-          const currentState = this.incomingData.entityStates[entityId];
-          this.incomingData.entityStates[entityId] = {
-            ...currentState,
-            ...change["+"],
-          };
-        }
-      } else {
-        for (const entityId of Object.keys(changes)) {
-          if (entityId.startsWith(`${EntityTypes.light}.`)) {
-            const change = changes[entityId];
-            this.updateLightState(entityId, change["+"]);
+      const entityStates = this.incomingData.entityStates;
+      if (!entityStates) {
+        return;
+      }
+      for (const entityId of Object.keys(changes)) {
+        const before = this.getEntity(entityId);
+        entityStates[entityId] = applyEntityStateDiff(
+          entityStates[entityId],
+          changes[entityId],
+        );
+        delete this.simulatedStates[entityId];
+        this.updateEntityState(entityId);
+        this.emitEntityChange(before, this.getEntity(entityId));
+      }
+      this.notifyStateListeners();
+    });
+    this.wsClient.eventEmitter.on("entity_removed", (entityIds) => {
+      const entityStates = this.incomingData.entityStates;
+      if (!entityStates) {
+        return;
+      }
+      for (const entityId of entityIds) {
+        const before = this.getEntity(entityId);
+        delete entityStates[entityId];
+        delete this.simulatedStates[entityId];
+        this.removeEntity(entityId);
+        this.emitEntityChange(before, null);
+      }
+      this.notifyStateListeners();
+    });
+    this.wsClient.eventEmitter.on("service_call_recorded", (call) =>
+      this.simulateServiceCall(call),
+    );
+  }
+
+  /**
+   * @returns the states from Home Assistant with the simulated dry-run states on top, null before the first sync
+   */
+  private getEntityStates(): Record<string, HassEntityState> | null {
+    const { entityStates } = this.incomingData;
+    return entityStates && { ...entityStates, ...this.simulatedStates };
+  }
+
+  /**
+   * Applies the state a recorded dry-run call would have led to, so confirmations and later reads see it.
+   * The entities are marked as simulated, and state changes reported by Home Assistant afterwards
+   * overwrite the simulated state.
+   */
+  private simulateServiceCall(call: HassServiceCall) {
+    const { domain, service } = call;
+    const entityStates = this.getEntityStates();
+    if (!entityStates) {
+      return;
+    }
+    const apply = (
+      entityId: string,
+      entityService: string,
+      data: Record<string, unknown>,
+    ) => {
+      const current = entityStates[entityId];
+      if (!current || current.s === "unavailable") {
+        return;
+      }
+      const simulated = simulateService(
+        entityId.split(".")[0],
+        entityService,
+        current,
+        data,
+      );
+      if (
+        simulated.s === current.s &&
+        isDeepStrictEqual(simulated.a, current.a)
+      ) {
+        return;
+      }
+      const now = Date.now() / 1000;
+      const before = this.getEntity(entityId);
+      this.simulatedStates[entityId] =
+        simulated.s === current.s
+          ? { s: simulated.s, a: simulated.a, lc: current.lc, lu: now }
+          : { s: simulated.s, a: simulated.a, lc: now };
+      this.updateEntityState(entityId);
+      this.emitEntityChange(before, this.getEntity(entityId));
+    };
+    const { target, data } = getFullServiceTarget(call);
+    if (domain === "scene") {
+      // Only scenes saved through the DataManager have known light states, scene.create changes nothing
+      if (service === "turn_on") {
+        for (const scene of this.getTargetScenes(target)) {
+          for (const snapshot of scene.lights) {
+            if (snapshot.state === "off") {
+              apply(snapshot.entityId, "turn_off", {});
+            } else {
+              apply(
+                snapshot.entityId,
+                "turn_on",
+                getLightSnapshotServiceData(snapshot),
+              );
+            }
           }
         }
       }
+    } else {
+      for (const entityId of this.getServiceTargetEntityIds(domain, target)) {
+        apply(entityId, service, data);
+      }
+    }
+    this.notifyStateListeners();
+  }
+
+  /**
+   * Expands entity, device, area and floor targets to entity ids of the domain, the way Home Assistant does
+   */
+  private getServiceTargetEntityIds(
+    domain: string,
+    target: Record<string, unknown>,
+  ) {
+    const entityIds = new Set(toArray(target.entity_id));
+    const areaIds = new Set(toArray(target.area_id));
+    const floorIds = new Set(toArray(target.floor_id));
+    for (const area of this.data.areas) {
+      if (area.floorId && floorIds.has(area.floorId)) {
+        areaIds.add(area.id);
+      }
+    }
+    const deviceIds = new Set(toArray(target.device_id));
+    for (const entity of this.getAllEntities()) {
+      if (
+        (entity.deviceId && deviceIds.has(entity.deviceId)) ||
+        areaIds.has(entity.areaId)
+      ) {
+        entityIds.add(entity.entityId);
+      }
+    }
+    return [...entityIds].filter((entityId) =>
+      entityId.startsWith(`${domain}.`),
+    );
+  }
+  private getTargetScenes(target: Record<string, unknown>): Scene[] {
+    const scenes = this.getScenes();
+    return toArray(target.entity_id)
+      .map((sceneId) => scenes.find((scene) => `scene.${scene.id}` === sceneId))
+      .filter((scene): scene is Scene => !!scene);
+  }
+
+  /**
+   * Sends a service call, recording it in the action journal along with the targeted lights' current state
+   */
+  private callService(
+    domain: string,
+    service: string,
+    serviceData: HassServiceData = {},
+    target?: HassServiceTarget,
+  ) {
+    const call = { domain, service, serviceData, target: target ?? null };
+    const { target: fullTarget } = getFullServiceTarget(call);
+    const entityIds =
+      domain !== "scene"
+        ? this.getServiceTargetEntityIds(domain, fullTarget)
+        : service === "turn_on"
+          ? this.getTargetScenes(fullTarget).flatMap((scene) => scene.entityIds)
+          : [];
+    const previousLights = entityIds
+      .map((entityId) => this.getEntity(entityId))
+      .filter(
+        (entity): entity is Light =>
+          entity?.domain === EntityTypes.light &&
+          entity.state !== "unavailable",
+      )
+      .map(getLightSnapshot);
+    const recordedServiceCalls = this.recordedServiceCalls.getStore();
+    return this.journal.record(call, entityIds, previousLights, async () => {
+      const result = await this.wsClient.callService(
+        domain,
+        service,
+        serviceData,
+        target,
+        { caller: this.journal.getCaller() },
+      );
+      // A superseded call was never recorded, the call that replaced it was
+      if (this.wsClient.isDryRun && !result.superseded) {
+        recordedServiceCalls?.push(call);
+      }
+      return result;
     });
   }
 
+  /**
+   * Applies a reloaded config, rebuilding areas with their new display names and aliases
+   */
+  setConfig(config: Config) {
+    this.config = config;
+    this.syncData();
+  }
+
+  private getAreaConfig(areaId: string) {
+    return this.config.areas?.find((area) => area.areaId === areaId) ?? null;
+  }
+
+  /**
+   * @returns {Area[]} the areas listed in the config, in its order, or every area if it lists none
+   */
+  getExposedAreas(): Area[] {
+    const areaConfigs = this.config.areas;
+    if (!areaConfigs) {
+      return this.data.areas;
+    }
+    return areaConfigs
+      .map((areaConfig) =>
+        this.data.areas.find((area) => area.id === areaConfig.areaId),
+      )
+      .filter((area): area is Area => !!area);
+  }
+
+  getLightGroups() {
+    return this.config.lightGroups;
+  }
+
+  /**
+   * Lights of the group that don't exist (anymore) are left out
+   */
+  getLightGroupLights(groupId: string): Light[] {
+    const group = this.config.lightGroups.find((g) => g.id === groupId);
+    if (!group) {
+      throw new Error(`Light group not found: ${groupId}`);
+    }
+    return group.entityIds
+      .map((entityId) => this.getEntity(entityId))
+      .filter(
+        (entity): entity is Light => entity?.domain === EntityTypes.light,
+      );
+  }
+
   async cleanup() {
     this.wsClient.close();
   }
 
+  /**
+   * Rebuilds areas and lights once every registry and the entity states have been received,
+   * and again whenever one of them is refetched
+   */
   private syncData() {
     if (
       this.incomingData.areas &&
@@ -105,156 +749,1372 @@ export class DataManager {
       this.incomingData.entities &&
       this.incomingData.entityStates
     ) {
+      const wasReady = this.isReady;
+      const staleAreas = this.data.areas;
+      const staleEntities = this.getAllEntities();
       this.updateAreas(this.incomingData.areas);
-      this.updateLights(
+      this.updateFloors();
+      this.updateEntities(
         this.incomingData.devices,
         this.incomingData.entities,
-        this.incomingData.entityStates,
+        this.getEntityStates() ?? {},
       );
-      this.incomingData.areas = null;
-      this.incomingData.devices = null;
-      this.incomingData.entities = null;
-      this.incomingData.entityStates = null;
+      if (!this.isReady) {
+        this.isReady = true;
+        this.resolveReady();
+      }
+      if (wasReady) {
+        this.emitRebuildChanges(staleAreas, staleEntities);
+      }
+      this.notifyStateListeners();
+      this.eventEmitter.emit("synced", this.data);
+    }
+  }
+
+  private getAllEntities(): Entity[] {
+    return this.data.areas.flatMap((area) =>
+      AREA_ENTITY_KEYS.flatMap((key): Entity[] => area[key]),
+    );
+  }
+
+  /**
+   * @param before - null if the entity is new
+   * @param after - null if the entity was removed
+   */
+  private emitEntityChange(before: Entity | null, after: Entity | null) {
+    if (before && after) {
+      const wasAvailable = before.state !== "unavailable";
+      const isAvailable = after.state !== "unavailable";
+      if (wasAvailable !== isAvailable) {
+        this.eventEmitter.emit("availabilityChanged", {
+          entity: after,
+          isAvailable,
+        });
+      }
+    }
+    if ((before || after) && !isDeepStrictEqual(before, after)) {
+      this.eventEmitter.emit("entityChanged", { before, after });
+    }
+    const lightBefore = before?.domain === EntityTypes.light ? before : null;
+    const lightAfter = after?.domain === EntityTypes.light ? after : null;
+    if (
+      (lightBefore || lightAfter) &&
+      !isDeepStrictEqual(lightBefore, lightAfter)
+    ) {
+      this.eventEmitter.emit("lightChanged", {
+        before: lightBefore,
+        after: lightAfter,
+      });
     }
   }
 
+  /**
+   * Compares the areas and entities from before a full rebuild with the rebuilt ones
+   */
+  private emitRebuildChanges(staleAreas: Area[], staleEntities: Entity[]) {
+    for (const area of this.data.areas) {
+      if (!staleAreas.some((a) => a.id === area.id)) {
+        this.eventEmitter.emit("areaAdded", area);
+      }
+    }
+    for (const area of staleAreas) {
+      if (!this.data.areas.some((a) => a.id === area.id)) {
+        this.eventEmitter.emit("areaRemoved", area);
+      }
+    }
+    const entities = this.getAllEntities();
+    for (const before of staleEntities) {
+      const after = entities.find((e) => e.entityId === before.entityId);
+      this.emitEntityChange(before, after ?? null);
+    }
+    for (const after of entities) {
+      if (!staleEntities.some((e) => e.entityId === after.entityId)) {
+        this.emitEntityChange(null, after);
+      }
+    }
+  }
+
+  private notifyStateListeners() {
+    for (const listener of this.stateListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Checks the entity now and after every state update until it matches
+   * @returns {Promise<boolean>} true once the entity matches, false if it didn't within timeoutMs
+   */
+  private waitForEntity(
+    entityId: string,
+    matches: (entity: Entity | null) => boolean,
+    timeoutMs = this.confirmTimeoutMs,
+  ) {
+    return new Promise<boolean>((resolve) => {
+      const finish = (matched: boolean) => {
+        clearTimeout(timeout);
+        this.stateListeners.delete(check);
+        resolve(matched);
+      };
+      const check = () => {
+        if (matches(this.getEntity(entityId))) {
+          finish(true);
+        }
+      };
+      const timeout = setTimeout(() => finish(false), timeoutMs);
+      this.stateListeners.add(check);
+      check();
+    });
+  }
+
   private updateAreas(areas: HassArea[]) {
     const staleAreas = this.data.areas;
     this.data.areas = areas.map((area) => {
       const staleArea = staleAreas.find((a) => a.id === area.area_id);
       return {
         lights: [],
+        switches: [],
+        fans: [],
+        covers: [],
+        climates: [],
+        mediaPlayers: [],
+        locks: [],
+        sensors: [],
         ...staleArea,
         id: area.area_id,
         name: area.name,
+        aliases: area.aliases ?? [],
         floorId: area.floor_id,
       };
     });
+    const unassigned = createUnassignedArea();
+    const staleUnassigned = staleAreas.find((a) => a.id === UNASSIGNED_AREA_ID);
+    this.data.areas.push(
+      staleUnassigned
+        ? { ...staleUnassigned, name: unassigned.name, aliases: [] }
+        : unassigned,
+    );
+    for (const area of this.data.areas) {
+      const areaConfig = this.getAreaConfig(area.id);
+      if (!areaConfig) {
+        continue;
+      }
+      area.aliases = [
+        ...area.aliases,
+        ...areaConfig.aliases,
+        // The Home Assistant name keeps working next to the display name
+        ...(areaConfig.displayName ? [area.name] : []),
+      ];
+      area.name = areaConfig.displayName ?? area.name;
+    }
+  }
+
+  private updateFloors() {
+    const floors = this.incomingData.floors ?? [];
+    this.data.floors = floors.map((floor) => ({
+      id: floor.floor_id,
+      name: floor.name,
+      level: floor.level,
+      aliases: floor.aliases,
+      areaIds: this.data.areas
+        .filter((area) => area.floorId === floor.floor_id)
+        .map((area) => area.id),
+    }));
   }
 
-  private updateLights(
+  /**
+   * @returns {Area} the entity's area or the unassigned area if it has none or its area is unknown
+   */
+  private getEntityArea(areaId: string | null, entityId: string): Area {
+    const area = this.data.areas.find((a) => a.id === areaId);
+    if (area) {
+      return area;
+    }
+    if (areaId) {
+      console.error(
+        `Area not found: ${areaId} for entity ${entityId}, treating it as unassigned`,
+      );
+    }
+    return this.getArea(UNASSIGNED_AREA_ID);
+  }
+
+  /**
+   * Rebuilds the entities of every area, dropping entities that no longer exist
+   */
+  private updateEntities(
     devices: HassDevice[],
     entities: HassEntity[],
     entityStates: Record<string, HassEntityState>,
   ) {
+    for (const area of this.data.areas) {
+      for (const key of AREA_ENTITY_KEYS) {
+        area[key] = [];
+      }
+    }
     for (const entityId of Object.keys(entityStates)) {
-      if (!entityId.startsWith(`${EntityTypes.light}.`)) {
+      if (!getEntityType(entityId)) {
         continue;
       }
-      const { state, device } = getStateEntityDeviceForEntityId(
+      if (!entities.some((e) => e.entity_id === entityId)) {
+        // State arrived before the entity registry update, the refetch adds the entity
+        continue;
+      }
+      try {
+        const { state, device, areaId } = getStateEntityDeviceForEntityId(
+          entityId,
+          devices,
+          entities,
+          entityStates,
+        );
+        const area = this.getEntityArea(areaId, entityId);
+        const entity = createEntity(
+          entityId,
+          area,
+          device,
+          state,
+          entityId in this.simulatedStates,
+        );
+        if (entity) {
+          addEntityToArea(area, entity);
+        }
+      } catch (error) {
+        // One inconsistent entity must not abort the sync of all others
+        console.error(
+          `Skipping entity ${entityId}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Applies the current entity state to its entity, adding the entity if it is new
+   * @returns {string | null} areaId of the area where the entity is located or null if not found
+   */
+  private updateEntityState(entityId: string): string | null {
+    const entityState =
+      this.simulatedStates[entityId] ??
+      this.incomingData.entityStates?.[entityId];
+    if (!this.isReady || !entityState || !getEntityType(entityId)) {
+      // The first sync builds all entities
+      return null;
+    }
+    const { devices, entities, entityStates } = this.incomingData;
+    if (!devices || !entities?.some((e) => e.entity_id === entityId)) {
+      // New entity, the entity registry update that follows adds it
+      return null;
+    }
+    try {
+      const { device, areaId } = getStateEntityDeviceForEntityId(
         entityId,
         devices,
         entities,
-        entityStates,
+        entityStates ?? {},
       );
-      const area = this.data.areas.find((a) => a.id === device.area_id);
-      if (!area) {
-        throw Error(`Area not found: ${device.area_id} for light ${entityId}`);
-      }
-      const light: Light = {
-        areaId: area.id,
-        areaName: area.name,
-        deviceId: device.id,
-        deviceName: device.name,
-        entityId: entityId,
-        state: getLightState(state.s),
-        brightnessPercentage: getBrightnessPercentage(state.a.brightness),
-        rgbColor: getRBGColor(state.a.rgb_color),
-      };
-      const existingLightIndex = area.lights.findIndex(
-        (l) => l.entityId === entityId,
+      const area = this.getEntityArea(areaId, entityId);
+      const entity = createEntity(
+        entityId,
+        area,
+        device,
+        entityState,
+        entityId in this.simulatedStates,
       );
-      if (existingLightIndex !== -1) {
-        area.lights[existingLightIndex] = light;
-      } else {
-        area.lights.push(light);
+      this.removeEntity(entityId);
+      if (entity) {
+        addEntityToArea(area, entity);
       }
+      return area.id;
+    } catch (error) {
+      console.error(
+        `Skipping entity ${entityId}:`,
+        error instanceof Error ? error.message : error,
+      );
+      return null;
     }
   }
 
   /**
-   * @returns {string | null} areaId of the area where the light is located or null if not found
+   * @returns {string | null} areaId of the area where the entity was located or null if not found
    */
-  private updateLightState(
-    entityId: string,
-    entityState: HassEntityState,
-  ): string | null {
+  private removeEntity(entityId: string): string | null {
     for (const area of this.data.areas) {
-      const light = area.lights.find((l) => l.entityId === entityId);
-      if (light) {
-        light.state = getLightState(entityState.s);
-        if (entityState.a) {
-          light.brightnessPercentage = getBrightnessPercentage(
-            entityState.a.brightness,
-          );
-          light.rgbColor = getRBGColor(entityState.a.rgb_color);
+      for (const key of AREA_ENTITY_KEYS) {
+        const entities: Entity[] = area[key];
+        const index = entities.findIndex((e) => e.entityId === entityId);
+        if (index !== -1) {
+          entities.splice(index, 1);
+          return area.id;
         }
-        return area.id;
       }
     }
     return null;
   }
 
-  getLights(areaId: string) {
+  getArea(areaId: string) {
     const area = this.data.areas.find((area) => area.id === areaId);
     if (!area) {
       throw new Error(`Area not found: ${areaId}`);
     }
-    return area.lights;
+    return area;
   }
 
-  getAverageBrightness(areaId: string) {
-    const lights = this.getLights(areaId);
-    if (lights.length === 0) {
-      return 0;
+  /**
+   * @returns {Entity[]} every supported entity in the area, regardless of domain
+   */
+  getEntities(areaId: string): Entity[] {
+    const area = this.getArea(areaId);
+    return AREA_ENTITY_KEYS.flatMap((key): Entity[] => area[key]);
+  }
+
+  getEntity(entityId: string): Entity | null {
+    for (const area of this.data.areas) {
+      for (const key of AREA_ENTITY_KEYS) {
+        const entities: Entity[] = area[key];
+        const entity = entities.find((e) => e.entityId === entityId);
+        if (entity) {
+          return entity;
+        }
+      }
     }
-    const totalBrightness = lights.reduce(
-      (acc, light) => acc + (light.brightnessPercentage || 0),
-      0,
+    return null;
+  }
+
+  /**
+   * Matches user wording like "lounge", "office lamp" or "upstairs" against area names, light and device
+   * names (including names given by the user), light groups, floors and aliases from Home Assistant and
+   * the config. Only exposed areas, their lights and floors with an exposed area are considered.
+   * @param types - only match these kinds of targets, e.g. floors for a floor command
+   */
+  resolveTarget(
+    query: string,
+    { types }: { types?: TargetNames["type"][] } = {},
+  ) {
+    const targets: TargetNames[] = [];
+    const exposedAreas = this.getExposedAreas();
+    for (const area of exposedAreas) {
+      targets.push({
+        type: "area",
+        id: area.id,
+        name: area.name,
+        areaId: area.id,
+        names: [area.name, area.id, ...area.aliases],
+        context: [],
+      });
+      for (const light of area.lights) {
+        const device = this.incomingData.devices?.find(
+          (d) => d.id === light.deviceId,
+        );
+        targets.push({
+          type: "light",
+          id: light.entityId,
+          name: light.name,
+          areaId: area.id,
+          names: [
+            light.name,
+            light.deviceName,
+            device?.name ?? light.deviceName,
+            light.entityId,
+          ],
+          // "office lamp" is the lamp in the office
+          context:
+            area.id === UNASSIGNED_AREA_ID ? [] : [area.name, ...area.aliases],
+        });
+      }
+    }
+    for (const group of this.config.lightGroups) {
+      targets.push({
+        type: "group",
+        id: group.id,
+        name: group.name,
+        areaId: null,
+        names: [group.name, group.id, ...group.aliases],
+        context: [],
+      });
+    }
+    for (const floor of this.data.floors) {
+      if (!exposedAreas.some((area) => floor.areaIds.includes(area.id))) {
+        continue;
+      }
+      targets.push({
+        type: "floor",
+        id: floor.id,
+        name: floor.name,
+        areaId: null,
+        names: [floor.name, floor.id, ...floor.aliases],
+        context: [],
+      });
+    }
+    return resolveTarget(
+      query,
+      types ? targets.filter((target) => types.includes(target.type)) : targets,
     );
-    return totalBrightness / lights.length;
   }
 
-  turnOffLight(entityId: string) {
-    this.wsClient.sendTurnOffLight(entityId);
+  getFloor(floorId: string) {
+    const floor = this.data.floors.find((floor) => floor.id === floorId);
+    if (!floor) {
+      throw new Error(`Floor not found: ${floorId}`);
+    }
+    return floor;
   }
 
-  turnOnLight(entityId: string) {
-    this.wsClient.sendTurnOnLight(entityId);
+  getFloorAreas(floorId: string) {
+    const { areaIds } = this.getFloor(floorId);
+    return this.data.areas.filter((area) => areaIds.includes(area.id));
   }
 
-  dimLight(entityId: string, brightnessPercentage: number) {
+  getFloorLights(floorId: string) {
+    return this.getFloorAreas(floorId).flatMap((area) => area.lights);
+  }
+
+  getLights(areaId: string) {
+    return this.getArea(areaId).lights;
+  }
+
+  getSwitches(areaId: string) {
+    return this.getArea(areaId).switches;
+  }
+
+  getFans(areaId: string) {
+    return this.getArea(areaId).fans;
+  }
+
+  getCovers(areaId: string) {
+    return this.getArea(areaId).covers;
+  }
+
+  getClimates(areaId: string) {
+    return this.getArea(areaId).climates;
+  }
+
+  getMediaPlayers(areaId: string) {
+    return this.getArea(areaId).mediaPlayers;
+  }
+
+  getLocks(areaId: string) {
+    return this.getArea(areaId).locks;
+  }
+
+  getSensors(areaId: string, deviceClass?: string) {
+    const sensors = this.getArea(areaId).sensors;
+    return deviceClass
+      ? sensors.filter((sensor) => sensor.deviceClass === deviceClass)
+      : sensors;
+  }
+
+  /**
+   * Averages the area's temperature sensors, falling back to the thermostats' current temperature
+   * @returns {number | null} null if the area has no temperature readings
+   */
+  getTemperature(areaId: string): number | null {
+    const sensorReadings = this.getSensors(areaId, "temperature")
+      .map((sensor) => sensor.value)
+      .filter((value): value is number => typeof value === "number");
+    const readings =
+      sensorReadings.length > 0
+        ? sensorReadings
+        : this.getClimates(areaId)
+            .map((climate) => climate.currentTemperature)
+            .filter((value): value is number => value !== null);
+    if (readings.length === 0) {
+      return null;
+    }
+    return readings.reduce((acc, value) => acc + value, 0) / readings.length;
+  }
+
+  getAverageBrightness(areaId: string) {
+    const lights = this.getLights(areaId);
+    if (lights.length === 0) {
+      return 0;
+    }
+    const totalBrightness = lights.reduce(
+      (acc, light) => acc + (light.brightnessPercentage || 0),
+      0,
+    );
+    return totalBrightness / lights.length;
+  }
+
+  /**
+   * @param entityId - one light or several, several lights are switched in a single call
+   */
+  turnOffLight(entityId: string | string[]) {
+    return this.callService("light", "turn_off", {}, { entity_id: entityId });
+  }
+
+  /**
+   * @param entityId - one light or several, several lights are switched in a single call
+   */
+  turnOnLight(entityId: string | string[]) {
+    return this.callService("light", "turn_on", {}, { entity_id: entityId });
+  }
+
+  /**
+   * @param entityId - one light or several, several lights are dimmed in a single call
+   */
+  dimLight(entityId: string | string[], brightnessPercentage: number) {
     const brightness = getBrightnessValue(brightnessPercentage);
     if (brightness === null || brightness === 0) {
-      this.turnOffLight(entityId);
-    } else {
-      this.wsClient.sendTurnOnLight(entityId, { brightness });
+      return this.turnOffLight(entityId);
     }
+    return this.callService(
+      "light",
+      "turn_on",
+      { brightness },
+      { entity_id: entityId },
+    );
   }
 
-  async turnOffAllLights(areaId: string) {
-    // console.log("Turning off all lights in area", areaId);
-    const lights = this.getLights(areaId);
-    for (const light of lights) {
-      if (light.state === "on") {
-        this.turnOffLight(light.entityId);
+  /**
+   * Sends the command even to lights that already look to be in the state, our copy could be stale,
+   * and waits until Home Assistant reports each light in that state. The lights are switched together
+   * in one call with all of them as the target, lights that are off and turn on at their area's default
+   * brightness get one call per brightness. The target lists the lights rather than their area, so
+   * lights the caller left out stay untouched.
+   * @returns {LightCommandResult[]} the outcome for every light, in the given order
+   */
+  private async setLightsState(
+    lights: Light[],
+    state: "on" | "off",
+    timeoutMs: number,
+  ): Promise<LightCommandResult[]> {
+    // State updates replace the lights in the area while the commands run, keep the ones from before
+    const targetLights = [...lights];
+    const batches = new Map<number | null, string[]>();
+    for (const light of targetLights) {
+      if (light.state === "unavailable") {
+        continue;
       }
+      const brightnessPercentage =
+        state === "on" && light.state === "off"
+          ? (this.getAreaConfig(light.areaId)?.defaultBrightness ?? null)
+          : null;
+      batches.set(brightnessPercentage, [
+        ...(batches.get(brightnessPercentage) ?? []),
+        light.entityId,
+      ]);
     }
+    const errors = new Map<string, string>();
+    await Promise.all(
+      [...batches].map(async ([brightnessPercentage, entityIds]) => {
+        const target = entityIds.length === 1 ? entityIds[0] : entityIds;
+        try {
+          if (state === "off") {
+            await this.turnOffLight(target);
+          } else if (brightnessPercentage !== null) {
+            await this.dimLight(target, brightnessPercentage);
+          } else {
+            await this.turnOnLight(target);
+          }
+        } catch (error) {
+          for (const entityId of entityIds) {
+            errors.set(
+              entityId,
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+        }
+      }),
+    );
+    return Promise.all(
+      targetLights.map(async (light): Promise<LightCommandResult> => {
+        const result = {
+          entityId: light.entityId,
+          name: light.name,
+          error: null,
+        };
+        if (light.state === "unavailable") {
+          return { ...result, outcome: "unavailable" };
+        }
+        const error = errors.get(light.entityId);
+        if (error) {
+          return { ...result, outcome: "failed", error };
+        }
+        const confirmed = await this.waitForEntity(
+          light.entityId,
+          (entity) => entity?.state === state,
+          timeoutMs,
+        );
+        if (!confirmed) {
+          return {
+            ...result,
+            outcome: "failed",
+            error: `Light did not turn ${state} within ${timeoutMs}ms`,
+          };
+        }
+        return {
+          ...result,
+          outcome: light.state === state ? "already" : "changed",
+        };
+      }),
+    );
   }
 
-  async turnOnAllLights(areaId: string) {
-    const lights = this.getLights(areaId);
-    for (const light of lights) {
-      if (light.state === "off") {
-        this.turnOnLight(light.entityId);
+  /**
+   * Resolves once Home Assistant reports the light in the state, or its command failed or timed out
+   */
+  async switchLight(
+    entityId: string,
+    state: "on" | "off",
+    { timeoutMs = this.confirmTimeoutMs }: { timeoutMs?: number } = {},
+  ) {
+    const [result] = await this.setLightsState(
+      [this.getLight(entityId)],
+      state,
+      timeoutMs,
+    );
+    return result;
+  }
+
+  /**
+   * Resolves once Home Assistant reports every light off, or its command failed or timed out
+   * @returns {LightCommandResult[]} the outcome for every light in the area
+   */
+  async turnOffAllLights(
+    areaId: string,
+    { timeoutMs = this.confirmTimeoutMs }: { timeoutMs?: number } = {},
+  ) {
+    return this.setLightsState(this.getLights(areaId), "off", timeoutMs);
+  }
+
+  /**
+   * Resolves once Home Assistant reports every light on, or its command failed or timed out.
+   * Lights that were off turn on at the area's default brightness if the config sets one.
+   * @returns {LightCommandResult[]} the outcome for every light in the area
+   */
+  async turnOnAllLights(
+    areaId: string,
+    { timeoutMs = this.confirmTimeoutMs }: { timeoutMs?: number } = {},
+  ) {
+    return this.setLightsState(this.getLights(areaId), "on", timeoutMs);
+  }
+
+  /**
+   * @returns {LightCommandResult[]} the outcome for every light of the group
+   */
+  async turnOffLightGroup(
+    groupId: string,
+    { timeoutMs = this.confirmTimeoutMs }: { timeoutMs?: number } = {},
+  ) {
+    return this.setLightsState(
+      this.getLightGroupLights(groupId),
+      "off",
+      timeoutMs,
+    );
+  }
+
+  /**
+   * Lights turn on at the default brightness of their own area
+   * @returns {LightCommandResult[]} the outcome for every light of the group
+   */
+  async turnOnLightGroup(
+    groupId: string,
+    { timeoutMs = this.confirmTimeoutMs }: { timeoutMs?: number } = {},
+  ) {
+    return this.setLightsState(
+      this.getLightGroupLights(groupId),
+      "on",
+      timeoutMs,
+    );
+  }
+
+  /**
+   * Lights that end up at the same brightness share one call, like dimAllLights, and every light is
+   * confirmed like in setLightsState. The reported brightness may be off by one after rounding to 0-255.
+   * @param relative - add brightnessPercentage to each light's current brightness instead of setting it
+   * @returns {BrightnessCommandResult[]} the outcome for every light, in the given order
+   */
+  private async setLightsBrightness(
+    lights: Light[],
+    brightnessPercentage: number,
+    relative: boolean,
+    timeoutMs: number,
+  ): Promise<BrightnessCommandResult[]> {
+    const targetLights = [...lights];
+    const targets = new Map(
+      targetLights.map((light) => [
+        light.entityId,
+        getTargetBrightness(light, brightnessPercentage, relative),
+      ]),
+    );
+    const batches = new Map<number, string[]>();
+    for (const light of targetLights) {
+      if (light.state === "unavailable") {
+        continue;
       }
+      const target = targets.get(light.entityId)!;
+      batches.set(target, [...(batches.get(target) ?? []), light.entityId]);
     }
+    const errors = new Map<string, string>();
+    await Promise.all(
+      [...batches].map(async ([target, entityIds]) => {
+        try {
+          await this.dimLight(
+            entityIds.length === 1 ? entityIds[0] : entityIds,
+            target,
+          );
+        } catch (error) {
+          for (const entityId of entityIds) {
+            errors.set(
+              entityId,
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+        }
+      }),
+    );
+    return Promise.all(
+      targetLights.map(async (light): Promise<BrightnessCommandResult> => {
+        const target = targets.get(light.entityId)!;
+        const result = {
+          entityId: light.entityId,
+          name: light.name,
+          error: null,
+          previousBrightnessPercentage: getCurrentBrightness(light),
+          brightnessPercentage: target,
+        };
+        if (light.state === "unavailable") {
+          return { ...result, outcome: "unavailable" };
+        }
+        const error = errors.get(light.entityId);
+        if (error) {
+          return { ...result, outcome: "failed", error };
+        }
+        const confirmed = await this.waitForEntity(
+          light.entityId,
+          (entity) =>
+            entity?.domain === EntityTypes.light &&
+            Math.abs(getCurrentBrightness(entity) - target) <= 1,
+          timeoutMs,
+        );
+        if (!confirmed) {
+          return {
+            ...result,
+            outcome: "failed",
+            error: `Light did not reach ${target}% within ${timeoutMs}ms`,
+          };
+        }
+        return {
+          ...result,
+          outcome:
+            Math.abs(result.previousBrightnessPercentage - target) <= 1
+              ? "already"
+              : "changed",
+        };
+      }),
+    );
+  }
+
+  /**
+   * Resolves once Home Assistant reports the light at the brightness, or its command failed or timed out
+   * @param relative - add brightnessPercentage to the current brightness, e.g. -20 to dim by 20 points
+   */
+  async setLightBrightness(
+    entityId: string,
+    brightnessPercentage: number,
+    {
+      relative = false,
+      timeoutMs = this.confirmTimeoutMs,
+    }: { relative?: boolean; timeoutMs?: number } = {},
+  ) {
+    const [result] = await this.setLightsBrightness(
+      [this.getLight(entityId)],
+      brightnessPercentage,
+      relative,
+      timeoutMs,
+    );
+    return result;
+  }
+
+  /**
+   * @param relative - add brightnessPercentage to each light's current brightness
+   * @returns {BrightnessCommandResult[]} the outcome for every light in the area
+   */
+  async setAllLightsBrightness(
+    areaId: string,
+    brightnessPercentage: number,
+    {
+      relative = false,
+      timeoutMs = this.confirmTimeoutMs,
+    }: { relative?: boolean; timeoutMs?: number } = {},
+  ) {
+    return this.setLightsBrightness(
+      this.getLights(areaId),
+      brightnessPercentage,
+      relative,
+      timeoutMs,
+    );
+  }
+
+  /**
+   * @param relative - add brightnessPercentage to each light's current brightness
+   * @returns {BrightnessCommandResult[]} the outcome for every light of the group
+   */
+  async setLightGroupBrightness(
+    groupId: string,
+    brightnessPercentage: number,
+    {
+      relative = false,
+      timeoutMs = this.confirmTimeoutMs,
+    }: { relative?: boolean; timeoutMs?: number } = {},
+  ) {
+    return this.setLightsBrightness(
+      this.getLightGroupLights(groupId),
+      brightnessPercentage,
+      relative,
+      timeoutMs,
+    );
   }
 
   async dimAllLights(areaId: string, brightnessPercentage: number) {
     const lights = this.getLights(areaId);
-    for (const light of lights) {
-      this.dimLight(light.entityId, brightnessPercentage);
+    if (lights.length > 0) {
+      await this.dimLight(
+        lights.map((light) => light.entityId),
+        brightnessPercentage,
+      );
+    }
+    return lights;
+  }
+
+  private getLight(entityId: string): Light {
+    const entity = this.getEntity(entityId);
+    if (!entity || entity.domain !== EntityTypes.light) {
+      throw new Error(`Light not found: ${entityId}`);
+    }
+    return entity;
+  }
+
+  /**
+   * @param color - RGB values, a hex code or a CSS3 colour name
+   * @param transition - seconds to fade to the new colour
+   */
+  setColor(
+    entityId: string,
+    color: [number, number, number] | string,
+    { transition }: { transition?: number } = {},
+  ) {
+    if (!supportsColor(this.getLight(entityId))) {
+      throw new Error(`Light ${entityId} does not support colors`);
+    }
+    return this.callService(
+      "light",
+      "turn_on",
+      {
+        ...getColorServiceData(color),
+        transition,
+      },
+      { entity_id: entityId },
+    );
+  }
+
+  /**
+   * Clamps the temperature to the range the light supports
+   * @param transition - seconds to fade to the new colour temperature
+   */
+  setColorTemperature(
+    entityId: string,
+    kelvin: number,
+    { transition }: { transition?: number } = {},
+  ) {
+    const light = this.getLight(entityId);
+    if (!supportsColorTemperature(light)) {
+      throw new Error(`Light ${entityId} does not support color temperature`);
     }
+    const min = light.minColorTemperatureKelvin ?? kelvin;
+    const max = light.maxColorTemperatureKelvin ?? kelvin;
+    return this.callService(
+      "light",
+      "turn_on",
+      {
+        color_temp_kelvin: Math.round(Math.min(Math.max(kelvin, min), max)),
+        transition,
+      },
+      { entity_id: entityId },
+    );
+  }
+
+  /**
+   * @param transition - seconds to fade into the effect
+   */
+  setEffect(
+    entityId: string,
+    effect: string,
+    { transition }: { transition?: number } = {},
+  ) {
+    const light = this.getLight(entityId);
+    if (!light.effectList.includes(effect)) {
+      throw new Error(
+        `Light ${entityId} does not support effect "${effect}", supported effects: ${light.effectList.join(", ") || "none"}`,
+      );
+    }
+    return this.callService(
+      "light",
+      "turn_on",
+      { effect, transition },
+      { entity_id: entityId },
+    );
+  }
+
+  /**
+   * Lights that don't support colors are skipped
+   * @returns {Light[]} the lights that were changed
+   */
+  async setAllLightsColor(
+    areaId: string,
+    color: [number, number, number] | string,
+    options: { transition?: number } = {},
+  ) {
+    const lights = this.getLights(areaId).filter(supportsColor);
+    await Promise.all(
+      lights.map((light) => this.setColor(light.entityId, color, options)),
+    );
+    return lights;
+  }
+
+  /**
+   * Lights that don't support color temperature are skipped
+   * @returns {Light[]} the lights that were changed
+   */
+  async setAllLightsColorTemperature(
+    areaId: string,
+    kelvin: number,
+    options: { transition?: number } = {},
+  ) {
+    const lights = this.getLights(areaId).filter(supportsColorTemperature);
+    await Promise.all(
+      lights.map((light) =>
+        this.setColorTemperature(light.entityId, kelvin, options),
+      ),
+    );
+    return lights;
+  }
+
+  /**
+   * Lights that don't support the effect are skipped
+   * @returns {Light[]} the lights that were changed
+   */
+  async setAllLightsEffect(
+    areaId: string,
+    effect: string,
+    options: { transition?: number } = {},
+  ) {
+    const lights = this.getLights(areaId).filter((light) =>
+      light.effectList.includes(effect),
+    );
+    await Promise.all(
+      lights.map((light) => this.setEffect(light.entityId, effect, options)),
+    );
+    return lights;
+  }
+
+  /**
+   * @returns {LightCommandResult[]} the outcome for every light on every area of the floor
+   */
+  async turnOffAllLightsOnFloor(
+    floorId: string,
+    options: { timeoutMs?: number } = {},
+  ) {
+    const areas = this.getFloorAreas(floorId);
+    const results = await Promise.all(
+      areas.map((area) => this.turnOffAllLights(area.id, options)),
+    );
+    return results.flat();
+  }
+
+  /**
+   * @returns {LightCommandResult[]} the outcome for every light on every area of the floor
+   */
+  async turnOnAllLightsOnFloor(
+    floorId: string,
+    options: { timeoutMs?: number } = {},
+  ) {
+    const areas = this.getFloorAreas(floorId);
+    const results = await Promise.all(
+      areas.map((area) => this.turnOnAllLights(area.id, options)),
+    );
+    return results.flat();
+  }
+
+  /**
+   * Lights anywhere on the floor that end up at the same brightness share one call
+   * @param relative - add brightnessPercentage to each light's current brightness
+   * @returns {BrightnessCommandResult[]} the outcome for every light on every area of the floor
+   */
+  async setAllLightsOnFloorBrightness(
+    floorId: string,
+    brightnessPercentage: number,
+    {
+      relative = false,
+      timeoutMs = this.confirmTimeoutMs,
+    }: { relative?: boolean; timeoutMs?: number } = {},
+  ) {
+    return this.setLightsBrightness(
+      this.getFloorLights(floorId),
+      brightnessPercentage,
+      relative,
+      timeoutMs,
+    );
+  }
+
+  async dimAllLightsOnFloor(floorId: string, brightnessPercentage: number) {
+    const areas = this.getFloorAreas(floorId);
+    const lights = await Promise.all(
+      areas.map((area) => this.dimAllLights(area.id, brightnessPercentage)),
+    );
+    return lights.flat();
+  }
+
+  /**
+   * Unavailable lights are left out, there is nothing to restore them to
+   * @returns {LightSnapshot[]} the current state of every light in the area
+   */
+  getLightSnapshots(areaId: string): LightSnapshot[] {
+    return this.getLights(areaId)
+      .filter((light) => light.state !== "unavailable")
+      .map(getLightSnapshot);
+  }
+
+  /**
+   * Lights that were removed or became unavailable since the snapshot are skipped
+   * @returns {LightSnapshot[]} the snapshots that were restored
+   */
+  async restoreLightSnapshots(snapshots: LightSnapshot[]) {
+    const restorable = snapshots.filter((snapshot) => {
+      const light = this.getEntity(snapshot.entityId);
+      return (
+        light?.domain === EntityTypes.light && light.state !== "unavailable"
+      );
+    });
+    await Promise.all(
+      restorable.map((snapshot) =>
+        snapshot.state === "off"
+          ? this.turnOffLight(snapshot.entityId)
+          : this.callService(
+              "light",
+              "turn_on",
+              getLightSnapshotServiceData(snapshot),
+              { entity_id: snapshot.entityId },
+            ),
+      ),
+    );
+    return restorable;
+  }
+
+  /**
+   * Snapshots the area's lights under a name, saving again with the same name replaces the scene.
+   * The scene is kept in the scenes file either way, so it survives restarts.
+   * @param storage - "home_assistant" also creates the scene in Home Assistant with scene.create,
+   * so it shows up as scene.<id> there
+   * @param includesLight - lights it returns false for are left out of the scene, e.g. ones the policy hides
+   */
+  async saveScene(
+    name: string,
+    areaId: string,
+    {
+      storage = "local",
+      includesLight = () => true,
+    }: {
+      storage?: Scene["storage"];
+      includesLight?: (entityId: string) => boolean;
+    } = {},
+  ) {
+    const id = getSceneId(name);
+    if (!id) {
+      throw new Error(`Invalid scene name: ${name}`);
+    }
+    const lights = this.getLightSnapshots(areaId).filter((snapshot) =>
+      includesLight(snapshot.entityId),
+    );
+    const scene: Scene = {
+      id,
+      name,
+      areaId,
+      storage,
+      createdAt: new Date(),
+      entityIds: lights.map((snapshot) => snapshot.entityId),
+      lights,
+    };
+    if (storage === "home_assistant") {
+      const entities = Object.fromEntries(
+        scene.lights.map((snapshot) => [
+          snapshot.entityId,
+          snapshot.state === "off"
+            ? { state: "off" }
+            : { state: "on", ...getLightSnapshotServiceData(snapshot) },
+        ]),
+      );
+      await this.callService("scene", "create", {
+        scene_id: id,
+        entities,
+      });
+    }
+    this.sceneStore.set(scene);
+    return scene;
+  }
+
+  /**
+   * Scenes created with scene.create are gone after Home Assistant restarts, those are restored from the
+   * saved light states instead
+   * @param name - the scene's name or id
+   */
+  async applyScene(name: string) {
+    const scene = this.getScene(name);
+    if (
+      scene.storage === "home_assistant" &&
+      this.incomingData.entityStates?.[`scene.${scene.id}`]
+    ) {
+      await this.callService(
+        "scene",
+        "turn_on",
+        {},
+        { entity_id: `scene.${scene.id}` },
+      );
+    } else {
+      await this.restoreLightSnapshots(scene.lights);
+    }
+    return scene;
+  }
+
+  /**
+   * @param name - the scene's name or id, or its entity id like scene.movie_night
+   */
+  getScene(name: string): Scene {
+    const id = getSceneId(name.replace(/^scene\./, ""));
+    const scenes = this.getScenes();
+    const scene =
+      scenes.find((s) => s.id === id) ??
+      scenes.find((s) => getSceneId(s.name) === id);
+    if (!scene) {
+      throw new Error(`Scene not found: ${name}`);
+    }
+    return scene;
+  }
+
+  /**
+   * @returns {Scene[]} the saved scenes, then the scenes Home Assistant has that weren't saved here
+   */
+  getScenes(areaId?: string): Scene[] {
+    const saved = this.sceneStore.getAll();
+    const scenes = [
+      ...saved,
+      ...this.getHomeAssistantScenes().filter(
+        (scene) => !this.sceneStore.get(scene.id),
+      ),
+    ];
+    return areaId ? scenes.filter((scene) => scene.areaId === areaId) : scenes;
+  }
+
+  /**
+   * Reads the scenes from Home Assistant's scene.* entities. Their states say which entities they set, but
+   * not to what, so they have no light snapshots. Their area is the one all of their entities are in.
+   */
+  private getHomeAssistantScenes(): Scene[] {
+    return Object.entries(this.incomingData.entityStates ?? {})
+      .filter(([entityId]) => entityId.startsWith("scene."))
+      .map(([entityId, state]) => {
+        const id = entityId.slice("scene.".length);
+        const entityIds = getStringList(state.a.entity_id);
+        const areaIds = new Set(
+          entityIds.map((e) => this.getEntity(e)?.areaId ?? null),
+        );
+        return {
+          id,
+          name: getString(state.a.friendly_name) ?? id,
+          areaId: areaIds.size === 1 ? [...areaIds][0] : null,
+          storage: "home_assistant",
+          createdAt: null,
+          entityIds,
+          lights: [],
+        };
+      });
+  }
+
+  /**
+   * Records the commands sent while run is running as one action in the journal
+   * @param source - who or what asked, e.g. a tool name
+   * @param clientId - the authenticated client the action is done for
+   * @returns the result of run, and in dry-run mode the service calls it would have sent, oldest first
+   */
+  async runAction<T>(
+    source: string,
+    run: () => T | Promise<T>,
+    { clientId = null }: { clientId?: string | null } = {},
+  ): Promise<{ result: T; recordedServiceCalls: HassServiceCall[] }> {
+    const recordedServiceCalls: HassServiceCall[] = [];
+    const result = await this.recordedServiceCalls.run(
+      recordedServiceCalls,
+      () => this.journal.run(source, run, { clientId }),
+    );
+    return { result, recordedServiceCalls };
+  }
+
+  /**
+   * @param matches - only actions it returns true for, e.g. the ones the caller may see
+   * @returns {JournalEntry[]} the most recent actions, newest first
+   */
+  getRecentActions(
+    limit?: number,
+    matches?: (entry: JournalEntry) => boolean,
+  ): JournalEntry[] {
+    return this.journal.getRecentEntries(limit, matches);
+  }
+
+  /**
+   * @param id - an action from getRecentActions, defaults to the last one that can be undone
+   * @param matches - actions it returns false for are treated as if they didn't exist
+   * @throws {Error} if the action doesn't exist, was already undone or changed no lights
+   */
+  getUndoableAction(
+    id?: number,
+    matches: (entry: JournalEntry) => boolean = () => true,
+  ): JournalEntry {
+    if (id === undefined) {
+      const entry = this.journal.getLastUndoableEntry(matches);
+      if (!entry) {
+        throw new Error("There is no action to undo");
+      }
+      return entry;
+    }
+    const entry = this.journal.getEntry(id);
+    if (!entry || !matches(entry)) {
+      throw new Error(`Action not found: ${id}`);
+    }
+    if (entry.undoneBy !== null) {
+      throw new Error(
+        `Action ${id} was already undone by action ${entry.undoneBy}`,
+      );
+    }
+    if (entry.previousLights.length === 0) {
+      throw new Error(
+        `Action ${id} changed no lights, there is nothing to undo`,
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Restores the lights an action changed to their state from before it, recorded as a new action
+   * @returns {LightSnapshot[]} the restored lights, ones that were removed or became unavailable are skipped
+   */
+  async undoAction(id?: number) {
+    const entry = this.getUndoableAction(id);
+    return this.journal.run(
+      "undo",
+      () => this.restoreLightSnapshots(entry.previousLights),
+      { undoOf: entry.id },
+    );
+  }
+
+  private callEntityService(
+    entityId: string,
+    expectedTypes: EntityType[],
+    service: string,
+    serviceData?: HassServiceData,
+  ) {
+    const domain = getEntityType(entityId);
+    if (!domain || !expectedTypes.includes(domain)) {
+      throw new Error(
+        `Cannot ${service} ${entityId}, expected a ${expectedTypes.join(" or ")} entity`,
+      );
+    }
+    return this.callService(domain, service, serviceData, {
+      entity_id: entityId,
+    });
+  }
+
+  /**
+   * Turns on a light, switch, fan, media player or thermostat
+   */
+  turnOnEntity(entityId: string) {
+    return this.callEntityService(entityId, ON_OFF_ENTITY_TYPES, "turn_on");
+  }
+
+  /**
+   * Turns off a light, switch, fan, media player or thermostat
+   */
+  turnOffEntity(entityId: string) {
+    return this.callEntityService(entityId, ON_OFF_ENTITY_TYPES, "turn_off");
+  }
+
+  setFanSpeed(entityId: string, speedPercentage: number) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.fan],
+      "set_percentage",
+      {
+        percentage: speedPercentage,
+      },
+    );
+  }
+
+  openCover(entityId: string) {
+    return this.callEntityService(entityId, [EntityTypes.cover], "open_cover");
+  }
+
+  closeCover(entityId: string) {
+    return this.callEntityService(entityId, [EntityTypes.cover], "close_cover");
+  }
+
+  stopCover(entityId: string) {
+    return this.callEntityService(entityId, [EntityTypes.cover], "stop_cover");
+  }
+
+  setCoverPosition(entityId: string, positionPercentage: number) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.cover],
+      "set_cover_position",
+      { position: positionPercentage },
+    );
+  }
+
+  setTargetTemperature(entityId: string, temperature: number) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.climate],
+      "set_temperature",
+      { temperature },
+    );
+  }
+
+  setHvacMode(entityId: string, hvacMode: string) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.climate],
+      "set_hvac_mode",
+      { hvac_mode: hvacMode },
+    );
+  }
+
+  playMedia(entityId: string) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.mediaPlayer],
+      "media_play",
+    );
+  }
+
+  pauseMedia(entityId: string) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.mediaPlayer],
+      "media_pause",
+    );
+  }
+
+  setVolume(entityId: string, volumePercentage: number) {
+    return this.callEntityService(
+      entityId,
+      [EntityTypes.mediaPlayer],
+      "volume_set",
+      { volume_level: volumePercentage / 100 },
+    );
+  }
+
+  lock(entityId: string) {
+    return this.callEntityService(entityId, [EntityTypes.lock], "lock");
+  }
+
+  unlock(entityId: string) {
+    return this.callEntityService(entityId, [EntityTypes.lock], "unlock");
   }
 }
@@ -1,33 +1,256 @@
 export type Area = {
   id: string;
   name: string;
+  aliases: string[];
   floorId: string | null;
   lights: Light[];
+  switches: Switch[];
+  fans: Fan[];
+  covers: Cover[];
+  climates: Climate[];
+  mediaPlayers: MediaPlayer[];
+  locks: Lock[];
+  sensors: Sensor[];
 };
 
-export type Light = {
+export type Floor = {
+  id: string;
+  name: string;
+  level: number | null;
+  aliases: string[];
+  areaIds: string[];
+};
+
+type EntityBase = {
   areaId: string;
   areaName: string;
   deviceId: string | null;
   deviceName: string;
   entityId: string;
+  name: string; // friendly name, falls back to the device name
+  lastChanged: Date | null;
+  lastUpdated: Date | null;
+  isSimulated: boolean; // the state is the simulated outcome of a dry-run command, not reported by Home Assistant
+};
+
+export type Light = EntityBase & {
+  domain: typeof EntityTypes.light;
   state: "on" | "off" | "unavailable";
   brightnessPercentage: number | null;
   rgbColor: [number, number, number] | null;
+  colorMode: string | null; // e.g. color_temp, hs, xy, brightness
+  supportedColorModes: string[];
+  colorTemperatureKelvin: number | null;
+  minColorTemperatureKelvin: number | null;
+  maxColorTemperatureKelvin: number | null;
+  effect: string | null;
+  effectList: string[];
+};
+
+export type Switch = EntityBase & {
+  domain: typeof EntityTypes.switch;
+  state: "on" | "off" | "unavailable";
+};
+
+export type Fan = EntityBase & {
+  domain: typeof EntityTypes.fan;
+  state: "on" | "off" | "unavailable";
+  speedPercentage: number | null;
+};
+
+export type Cover = EntityBase & {
+  domain: typeof EntityTypes.cover;
+  state: "open" | "closed" | "opening" | "closing" | "unavailable";
+  positionPercentage: number | null; // 0 is closed, 100 is fully open
+  deviceClass: string | null; // e.g. garage, blind, door
+};
+
+export type Climate = EntityBase & {
+  domain: typeof EntityTypes.climate;
+  state:
+    string | "off" | "heat" | "cool" | "heat_cool" | "auto" | "unavailable"; // hvac mode
+  currentTemperature: number | null;
+  targetTemperature: number | null;
+  hvacAction: string | null; // e.g. heating, idle
+};
+
+export type MediaPlayer = EntityBase & {
+  domain: typeof EntityTypes.mediaPlayer;
+  state: string | "off" | "on" | "idle" | "playing" | "paused" | "unavailable";
+  volumePercentage: number | null;
+  isMuted: boolean | null;
+  mediaTitle: string | null;
+};
+
+export type Lock = EntityBase & {
+  domain: typeof EntityTypes.lock;
+  state:
+    | "locked"
+    | "unlocked"
+    | "locking"
+    | "unlocking"
+    | "jammed"
+    | "open"
+    | "unavailable";
+};
+
+export type Sensor = EntityBase & {
+  domain: typeof EntityTypes.sensor | typeof EntityTypes.binarySensor;
+  state: "available" | "unavailable";
+  value: number | string | null; // numeric sensor values are parsed, binary sensors are "on" or "off"
+  unit: string | null;
+  deviceClass: string | null; // e.g. temperature, humidity, garage_door
 };
 
+export type Entity =
+  Light | Switch | Fan | Cover | Climate | MediaPlayer | Lock | Sensor;
+
 export const EntityTypes = {
   light: "light",
+  switch: "switch",
+  fan: "fan",
+  cover: "cover",
+  climate: "climate",
+  mediaPlayer: "media_player",
+  lock: "lock",
+  sensor: "sensor",
+  binarySensor: "binary_sensor",
 } as const;
 
+export type EntityType = (typeof EntityTypes)[keyof typeof EntityTypes];
+
+/**
+ * Area for entities that neither they nor their device are assigned to, e.g. groups and helpers
+ */
+export const UNASSIGNED_AREA_ID = "unassigned";
+
+/**
+ * What an area command did to one light, unavailable lights are not sent the command
+ */
+export type LightCommandResult = {
+  entityId: string;
+  name: string;
+  outcome: "changed" | "already" | "unavailable" | "failed";
+  error: string | null; // why the command failed, e.g. a timeout waiting for the new state
+};
+
+/**
+ * What a brightness command did to one light, 0 means the light was turned off
+ */
+export type BrightnessCommandResult = LightCommandResult & {
+  previousBrightnessPercentage: number; // 0 if the light was off
+  brightnessPercentage: number;
+};
+
+/**
+ * What a light looked like when its area was captured, enough to turn it back into that state
+ */
+export type LightSnapshot = {
+  entityId: string;
+  state: "on" | "off";
+  brightnessPercentage: number | null;
+  colorMode: string | null;
+  rgbColor: [number, number, number] | null;
+  colorTemperatureKelvin: number | null;
+  effect: string | null;
+};
+
+/**
+ * Named snapshot of an area's lights, kept by the DataManager and optionally created in Home Assistant as
+ * scene.<id>, or a scene created in Home Assistant itself
+ */
+export type Scene = {
+  id: string;
+  name: string;
+  areaId: string | null; // null for Home Assistant scenes whose entities aren't all in one area
+  storage: "local" | "home_assistant";
+  createdAt: Date | null; // null for scenes created in Home Assistant itself
+  entityIds: string[]; // every entity the scene sets
+  lights: LightSnapshot[]; // empty for scenes created in Home Assistant itself, only it knows their states
+};
+
 export type HomeAssistantData = {
+  floors: Floor[];
   areas: Area[];
 };
 
+/**
+ * @returns {string} e.g. "Before the meeting" becomes before_the_meeting
+ */
+export function getSceneId(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function getEntityType(entityId: string): EntityType | null {
+  const domain = entityId.split(".")[0];
+  return Object.values(EntityTypes).find((type) => type === domain) ?? null;
+}
+
 export function getLightState(state?: string): Light["state"] {
   return state === "on" ? "on" : state === "off" ? "off" : "unavailable";
 }
 
+export function getCoverState(state?: string): Cover["state"] {
+  const states = ["open", "closed", "opening", "closing"] as const;
+  return states.find((s) => s === state) ?? "unavailable";
+}
+
+export function getLockState(state?: string): Lock["state"] {
+  const states = [
+    "locked",
+    "unlocked",
+    "locking",
+    "unlocking",
+    "jammed",
+    "open",
+  ] as const;
+  return states.find((s) => s === state) ?? "unavailable";
+}
+
+/**
+ * Home Assistant reports unknown when an entity has no value yet, which we treat as unavailable
+ */
+export function getStateOrUnavailable(state?: string): string {
+  return !state || state === "unknown" ? "unavailable" : state;
+}
+
+export function getNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+export function getString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * @param value - sensor state, numbers are reported as strings
+ */
+export function getSensorValue(value?: string): Sensor["value"] {
+  if (value === undefined || value === "unavailable" || value === "unknown") {
+    return null;
+  }
+  return getNumber(value) ?? value;
+}
+
+/**
+ * @param volumeLevel - media player volume between 0 and 1
+ */
+export function getVolumePercentage(volumeLevel: unknown): number | null {
+  const volume = getNumber(volumeLevel);
+  return volume === null ? null : Math.round(volume * 100);
+}
+
 export function getBrightnessPercentage(brightness: unknown): number | null {
   const maxBrightness = 255;
   let brightnessValue: number | null = null;
@@ -60,3 +283,54 @@ export function getRBGColor(
   if (!rgbColor || !Array.isArray(rgbColor)) return null;
   return rgbColor as [number, number, number];
 }
+
+/**
+ * @param seconds - Home Assistant timestamp in seconds since epoch
+ */
+export function getTimestamp(seconds: unknown): Date | null {
+  if (typeof seconds !== "number") return null;
+  return new Date(seconds * 1000);
+}
+
+export function getStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === "string");
+}
+
+/**
+ * Colour modes in which Home Assistant accepts a colour rather than only a colour temperature
+ */
+const COLOR_MODES = ["hs", "xy", "rgb", "rgbw", "rgbww"];
+
+export function supportsColor(light: Light): boolean {
+  return light.supportedColorModes.some((mode) => COLOR_MODES.includes(mode));
+}
+
+export function supportsColorTemperature(light: Light): boolean {
+  return light.supportedColorModes.includes("color_temp");
+}
+
+/**
+ * @param color - RGB values, a hex code like #ff8800 or a CSS3 colour name like "light blue" or "orange"
+ * @returns {object} light.turn_on service data for the colour
+ */
+export function getColorServiceData(
+  color: [number, number, number] | string,
+): { rgb_color: [number, number, number] } | { color_name: string } {
+  if (Array.isArray(color)) {
+    return { rgb_color: color };
+  }
+  const hex = color
+    .trim()
+    .match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (hex) {
+    return {
+      rgb_color: [
+        Number.parseInt(hex[1], 16),
+        Number.parseInt(hex[2], 16),
+        Number.parseInt(hex[3], 16),
+      ],
+    };
+  }
+  return { color_name: color.toLowerCase().replace(/[\s_-]/g, "") };
+}
@@ -0,0 +1,235 @@
+/* Decides what the model may read and change, checked by the tool handlers before they call the DataManager */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { UNASSIGNED_AREA_ID } from "./data";
+import type { Config } from "./config";
+
+/**
+ * One tool call as the policy sees it
+ */
+export type PolicyRequest = {
+  action: string; // e.g. turn_on, set_color, lock, or "read" for calls that change nothing
+  areaIds: string[]; // every area the call reads or changes
+  entityIds: string[]; // every entity the call reads or changes
+};
+
+/**
+ * The policy denied a tool call, the message tells the model why
+ */
+export class PolicyDeniedError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Denied by policy: ${reason}`);
+    this.name = "PolicyDeniedError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * A client the policy applies its own restrictions to on top of the config's, e.g. an authenticated MCP client
+ */
+export type PolicyClient = {
+  id: string;
+  allowAreas?: string[]; // leave out to allow every area the config allows
+  denyAreas: string[];
+  readOnly: boolean;
+};
+
+/**
+ * An entity a call touches, unknown entities have no area
+ */
+type PolicyEntity = { entityId: string; areaId: string | null };
+
+function getAreaIds(entities: PolicyEntity[], areaIds: string[]) {
+  const entityAreaIds = entities
+    .map((entity) => entity.areaId)
+    .filter((areaId): areaId is string => areaId !== null);
+  return [...new Set([...areaIds, ...entityAreaIds])];
+}
+
+function getMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function matchesEntity(patterns: string[], entityId: string) {
+  const domain = entityId.split(".")[0];
+  return patterns.some(
+    (pattern) => pattern === entityId || pattern === `${domain}.*`,
+  );
+}
+
+export class AccessPolicy {
+  private config: Config;
+  private now: () => Date;
+  private client = new AsyncLocalStorage<PolicyClient>();
+
+  /**
+   * @param now - injectable clock for quiet hours
+   */
+  constructor(config: Config, { now = () => new Date() } = {}) {
+    this.config = config;
+    this.now = now;
+  }
+
+  /**
+   * Applies a reloaded config
+   */
+  setConfig(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Checks everything called while run is running, including from nested async calls, for the client too
+   * @param client - null checks only the config's policy
+   */
+  runAs<T>(client: PolicyClient | null, run: () => T): T {
+    return client ? this.client.run(client, run) : run();
+  }
+
+  /**
+   * @returns {PolicyClient | null} the client calls are currently checked for
+   */
+  getClient(): PolicyClient | null {
+    return this.client.getStore() ?? null;
+  }
+
+  /**
+   * Areas must be allowed by the policy, or exposed by the config if the policy doesn't list any,
+   * and by the current client if there is one
+   */
+  isAreaAllowed(areaId: string): boolean {
+    const { allowAreas, denyAreas } = this.config.policy;
+    if (denyAreas.includes(areaId)) {
+      return false;
+    }
+    const client = this.client.getStore();
+    if (
+      client &&
+      (client.denyAreas.includes(areaId) ||
+        (client.allowAreas && !client.allowAreas.includes(areaId)))
+    ) {
+      return false;
+    }
+    const allowedAreaIds =
+      allowAreas ?? this.config.areas?.map((area) => area.areaId);
+    return !allowedAreaIds || allowedAreaIds.includes(areaId);
+  }
+
+  isEntityAllowed(entityId: string): boolean {
+    const { allowEntities, denyEntities } = this.config.policy;
+    if (matchesEntity(denyEntities, entityId)) {
+      return false;
+    }
+    return !allowEntities || matchesEntity(allowEntities, entityId);
+  }
+
+  /**
+   * @returns {boolean} whether the current time is within the quiet hours, if there are any
+   */
+  isQuietTime(): boolean {
+    const { quietHours } = this.config.policy;
+    if (!quietHours) {
+      return false;
+    }
+    const now = this.now();
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = getMinutes(quietHours.start);
+    const end = getMinutes(quietHours.end);
+    // Quiet hours like 22:00 to 07:00 wrap around midnight
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * @returns {string | null} why the request is denied, null if it is allowed
+   */
+  check(request: PolicyRequest): string | null {
+    const { readOnly, quietHours, maxEntitiesPerCall } = this.config.policy;
+    const isRead = request.action === "read";
+    if (!isRead && readOnly) {
+      return "read-only mode is on, nothing can be changed";
+    }
+    const client = this.client.getStore();
+    if (!isRead && client?.readOnly) {
+      return `client ${client.id} is read-only, it can't change anything`;
+    }
+    const deniedArea = request.areaIds.find((id) => !this.isAreaAllowed(id));
+    if (deniedArea) {
+      return deniedArea === UNASSIGNED_AREA_ID
+        ? "lights and devices without an area are not accessible"
+        : `area ${deniedArea} is not accessible`;
+    }
+    const deniedEntity = request.entityIds.find(
+      (id) => !this.isEntityAllowed(id),
+    );
+    if (deniedEntity) {
+      return `${deniedEntity} is not accessible`;
+    }
+    if (isRead) {
+      return null;
+    }
+    if (
+      quietHours &&
+      this.isQuietTime() &&
+      !quietHours.allowActions.includes(request.action)
+    ) {
+      return `it is quiet hours (${quietHours.start} to ${quietHours.end}), only ${quietHours.allowActions.join(", ")} is allowed`;
+    }
+    if (maxEntitiesPerCall && request.entityIds.length > maxEntitiesPerCall) {
+      return `the call would change ${request.entityIds.length} entities, at most ${maxEntitiesPerCall} are allowed per call`;
+    }
+    return null;
+  }
+
+  /**
+   * @throws {PolicyDeniedError} with the reason if the request is denied
+   */
+  assertAllowed(request: PolicyRequest) {
+    const reason = this.check(request);
+    if (reason) {
+      throw new PolicyDeniedError(reason);
+    }
+  }
+
+  /**
+   * @param entities - the entities the call changes, their areas are checked along with areaIds
+   * @throws {PolicyDeniedError} with the reason if the change is denied
+   */
+  assertCanChange(
+    action: string,
+    entities: PolicyEntity[],
+    areaIds: string[] = [],
+  ) {
+    this.assertAllowed({
+      action,
+      areaIds: getAreaIds(entities, areaIds),
+      entityIds: entities.map((entity) => entity.entityId),
+    });
+  }
+
+  /**
+   * For filtering what is listed, e.g. recent actions that touched entities the client can't see are left out
+   */
+  canRead(areaIds: string[], entities: PolicyEntity[] = []): boolean {
+    return (
+      this.check({
+        action: "read",
+        areaIds: getAreaIds(entities, areaIds),
+        entityIds: entities.map((entity) => entity.entityId),
+      }) === null
+    );
+  }
+
+  /**
+   * @throws {PolicyDeniedError} with the reason if reading is denied
+   */
+  assertCanRead(areaIds: string[], entities: PolicyEntity[] = []) {
+    this.assertAllowed({
+      action: "read",
+      areaIds: getAreaIds(entities, areaIds),
+      entityIds: entities.map((entity) => entity.entityId),
+    });
+  }
+}
@@ -0,0 +1,162 @@
+/* Matches free-form wording like "lounge" or "office lamp" against the names of areas and lights */
+
+/**
+ * Everything a target can be called by
+ */
+export type TargetNames = {
+  type: "area" | "light" | "group" | "floor";
+  id: string; // area id, entity id, light group id or floor id
+  name: string;
+  areaId: string | null; // null for light groups and floors, their lights can be in several areas
+  names: string[]; // names, ids and aliases, any of them can match
+  context: string[]; // words that narrow the match down without being a name, e.g. the area of a light
+};
+
+export type TargetCandidate = {
+  type: TargetNames["type"];
+  id: string;
+  name: string;
+  areaId: string | null;
+  score: number; // 0 to 1, 1 is an exact match
+  matchedName: string; // the name or alias that matched best
+};
+
+export type TargetResolution = {
+  query: string;
+  candidates: TargetCandidate[]; // best first
+  match: TargetCandidate | null; // null when nothing matched or the best candidates are too close to call
+  isAmbiguous: boolean;
+};
+
+// Words that don't tell targets apart, "kitchen lights" means the kitchen
+const IGNORED_WORDS = new Set([
+  "a",
+  "all",
+  "in",
+  "of",
+  "on",
+  "the",
+  "my",
+  "light",
+  "lights",
+]);
+
+// Candidates scoring below this are not worth suggesting
+const MIN_SCORE = 0.5;
+
+// Candidates within this margin of the best one make the match ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+function getWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !IGNORED_WORDS.has(word));
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Tolerates prefixes ("liv" for living, "lamps" for lamp) and single typos in longer words
+ */
+function getWordSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (
+    Math.min(a.length, b.length) >= 3 &&
+    (a.startsWith(b) || b.startsWith(a))
+  ) {
+    return 0.9;
+  }
+  if (Math.min(a.length, b.length) >= 4 && getEditDistance(a, b) <= 1) {
+    return 0.8;
+  }
+  return 0;
+}
+
+/**
+ * Mostly how much of the query the name and context explain, partly how much of the name the query covers,
+ * so "kitchen" prefers the kitchen over the kitchen spots
+ */
+function getScore(
+  queryWords: string[],
+  nameWords: string[],
+  contextWords: string[],
+): number {
+  const words = [...nameWords, ...contextWords];
+  const queryCoverage =
+    queryWords.reduce(
+      (sum, queryWord) =>
+        sum +
+        Math.max(0, ...words.map((word) => getWordSimilarity(queryWord, word))),
+      0,
+    ) / queryWords.length;
+  const nameCoverage =
+    nameWords.filter((word) =>
+      queryWords.some((queryWord) => getWordSimilarity(queryWord, word) > 0),
+    ).length / nameWords.length;
+  return 0.8 * queryCoverage + 0.2 * nameCoverage;
+}
+
+/**
+ * @returns {TargetResolution} every target scoring at least MIN_SCORE, best first
+ */
+export function resolveTarget(
+  query: string,
+  targets: TargetNames[],
+): TargetResolution {
+  const queryWords = getWords(query);
+  const candidates: TargetCandidate[] = [];
+  if (queryWords.length > 0) {
+    for (const target of targets) {
+      const contextWords = target.context.flatMap(getWords);
+      let best: { score: number; matchedName: string } | null = null;
+      for (const name of target.names) {
+        const nameWords = getWords(name);
+        if (nameWords.length === 0) {
+          continue;
+        }
+        const score = getScore(queryWords, nameWords, contextWords);
+        if (!best || score > best.score) {
+          best = { score, matchedName: name };
+        }
+      }
+      if (best && best.score >= MIN_SCORE) {
+        candidates.push({
+          type: target.type,
+          id: target.id,
+          name: target.name,
+          areaId: target.areaId,
+          score: Math.round(best.score * 100) / 100,
+          matchedName: best.matchedName,
+        });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  const [first, second] = candidates;
+  const isAmbiguous =
+    !!first && !!second && first.score - second.score < AMBIGUITY_MARGIN;
+  return {
+    query,
+    candidates,
+    match: first && !isAmbiguous ? first : null,
+    isAmbiguous,
+  };
+}
@@ -0,0 +1,96 @@
+/* Keeps the scenes saved through the DataManager in a JSON file so they survive restarts */
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+import type { Scene } from "./data";
+
+const lightSnapshotSchema = z.object({
+  entityId: z.string(),
+  state: z.enum(["on", "off"]),
+  brightnessPercentage: z.number().nullable(),
+  colorMode: z.string().nullable(),
+  rgbColor: z.tuple([z.number(), z.number(), z.number()]).nullable(),
+  colorTemperatureKelvin: z.number().nullable(),
+  effect: z.string().nullable(),
+});
+
+const sceneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  areaId: z.string().nullable(),
+  storage: z.enum(["local", "home_assistant"]),
+  createdAt: z.coerce.date().nullable(),
+  entityIds: z.array(z.string()),
+  lights: z.array(lightSnapshotSchema),
+});
+
+const sceneFileSchema = z.object({
+  scenes: z.array(sceneSchema),
+});
+
+export class SceneStore {
+  private path: string | null;
+  private scenes: Scene[];
+
+  /**
+   * @param path - null keeps the scenes in memory only, e.g. for a throwaway DataManager
+   * @throws {Error} if the file exists but isn't a valid scene file
+   */
+  constructor(path: string | null) {
+    this.path = path;
+    this.scenes = this.load();
+  }
+
+  get(id: string): Scene | null {
+    return this.scenes.find((scene) => scene.id === id) ?? null;
+  }
+
+  getAll(): Scene[] {
+    return [...this.scenes];
+  }
+
+  /**
+   * Replaces the scene with the same ID, if there is one
+   */
+  set(scene: Scene) {
+    this.scenes = [...this.scenes.filter((s) => s.id !== scene.id), scene];
+    this.save();
+  }
+
+  private load(): Scene[] {
+    if (!this.path) {
+      return [];
+    }
+    let text: string;
+    try {
+      text = readFileSync(this.path, "utf8");
+    } catch (error) {
+      // No scene has been saved yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    const result = sceneFileSchema.safeParse(JSON.parse(text));
+    if (!result.success) {
+      throw new Error(`Invalid scenes ${this.path}: ${result.error.message}`);
+    }
+    return result.data.scenes;
+  }
+
+  /**
+   * Writes to a temporary file first so a crash can't leave half a file behind
+   */
+  private save() {
+    if (!this.path) {
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(
+      temporaryPath,
+      JSON.stringify({ scenes: this.scenes }, null, 2),
+    );
+    renameSync(temporaryPath, this.path);
+  }
+}
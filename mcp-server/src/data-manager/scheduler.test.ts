@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Scheduler, type ScheduledAction } from "./scheduler";
+
+const target = {
+  type: "area" as const,
+  id: "office",
+  name: "Office",
+  areaId: "office",
+};
+
+let directory: string;
+let path: string;
+let now: Date;
+let ran: ScheduledAction[];
+let scheduler: Scheduler;
+
+function createScheduler() {
+  return new Scheduler(
+    path,
+    async (action) => {
+      ran.push(action);
+      return "Done";
+    },
+    { now: () => now, checkIntervalMs: 60_000 },
+  );
+}
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "scheduler-"));
+  path = join(directory, "scheduled-actions.json");
+  // A Wednesday
+  now = new Date(2025, 0, 8, 12, 0);
+  ran = [];
+  scheduler = createScheduler();
+});
+
+afterEach(() => {
+  scheduler.stop();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("Scheduler", () => {
+  test("runs a delayed action once it is due", async () => {
+    await scheduler.start();
+    const action = scheduler.schedule({
+      state: "on",
+      target,
+      delayMinutes: 30,
+    });
+    expect(action.nextRunAt).toEqual(new Date(2025, 0, 8, 12, 30));
+
+    now = new Date(2025, 0, 8, 12, 29);
+    await scheduler.runDueActions();
+    expect(ran).toHaveLength(0);
+
+    now = new Date(2025, 0, 8, 12, 30);
+    await scheduler.runDueActions();
+    expect(ran.map((a) => a.id)).toEqual([action.id]);
+    expect(scheduler.getActions()).toHaveLength(0);
+  });
+
+  test("runs at the next occurrence of a time", async () => {
+    await scheduler.start();
+    const action = scheduler.schedule({ state: "off", target, time: "07:00" });
+    expect(action.nextRunAt).toEqual(new Date(2025, 0, 9, 7, 0));
+  });
+
+  test("moves recurring actions on to their next day", async () => {
+    await scheduler.start();
+    // A Friday
+    now = new Date(2025, 0, 10, 12, 0);
+    scheduler.schedule({
+      state: "on",
+      target,
+      time: "13:00",
+      repeat: "weekdays",
+    });
+    // Friday's run moves on to Monday
+    now = new Date(2025, 0, 10, 13, 0);
+    await scheduler.runDueActions();
+    expect(ran).toHaveLength(1);
+    const [action] = scheduler.getActions();
+    expect(action.nextRunAt).toEqual(new Date(2025, 0, 13, 13, 0));
+    expect(action.lastResult).toBe("Done");
+  });
+
+  test("rejects invalid timing", () => {
+    expect(() => scheduler.schedule({ state: "on", target })).toThrow(
+      "Provide exactly one of delayMinutes or time",
+    );
+    expect(() =>
+      scheduler.schedule({ state: "on", target, time: "25:00" }),
+    ).toThrow("Invalid time 25:00");
+    expect(() =>
+      scheduler.schedule({
+        state: "on",
+        target,
+        delayMinutes: 5,
+        repeat: "daily",
+      }),
+    ).toThrow("Repeating daily needs a time");
+  });
+
+  test("persists actions and cancels them", async () => {
+    await scheduler.start();
+    const action = scheduler.schedule({ state: "on", target, delayMinutes: 5 });
+    expect(JSON.parse(readFileSync(path, "utf8")).actions).toHaveLength(1);
+
+    const restarted = createScheduler();
+    await restarted.start();
+    expect(restarted.getAction(action.id).nextRunAt).toEqual(action.nextRunAt);
+    restarted.cancel(action.id);
+    restarted.stop();
+    expect(() => restarted.getAction(action.id)).toThrow(
+      `Scheduled action not found: ${action.id}`,
+    );
+    expect(JSON.parse(readFileSync(path, "utf8")).actions).toHaveLength(0);
+  });
+
+  test("catches up on missed actions on startup unless they are too late", async () => {
+    await scheduler.start();
+    scheduler.schedule({ state: "on", target, delayMinutes: 5 });
+    scheduler.schedule({ state: "off", target, delayMinutes: 60 });
+    scheduler.stop();
+
+    // Ten minutes after the second one came due
+    now = new Date(2025, 0, 8, 13, 10);
+    scheduler = createScheduler();
+    await scheduler.start();
+    expect(ran.map((a) => a.state)).toEqual(["off"]);
+    expect(scheduler.getActions()).toHaveLength(0);
+  });
+});
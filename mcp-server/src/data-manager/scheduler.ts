@@ -0,0 +1,275 @@
+/* Runs light actions later or on a schedule, persisted to a JSON file so they survive restarts */
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+
+const REPEATS = ["once", "daily", "weekdays", "weekends"] as const;
+
+const scheduledActionSchema = z.object({
+  id: z.string(),
+  state: z.enum(["on", "off"]),
+  target: z.object({
+    type: z.enum(["area", "light", "group", "floor"]),
+    id: z.string(),
+    name: z.string(),
+    areaId: z.string().nullable(), // null for light groups and floors
+  }),
+  repeat: z.enum(REPEATS),
+  time: z.string().nullable(), // HH:MM in local time for recurring actions
+  nextRunAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  lastRunAt: z.coerce.date().nullable(),
+  lastResult: z.string().nullable(),
+  clientId: z.string().nullable().default(null), // the authenticated client that scheduled it, null for local use
+});
+
+const scheduleFileSchema = z.object({
+  actions: z.array(scheduledActionSchema),
+});
+
+export type ScheduledAction = z.infer<typeof scheduledActionSchema>;
+export type ScheduledTarget = ScheduledAction["target"];
+export type ScheduleRepeat = (typeof REPEATS)[number];
+
+/**
+ * Exactly one of delayMinutes and time, recurring actions need a time
+ */
+export type ScheduleRequest = {
+  state: "on" | "off";
+  target: ScheduledTarget;
+  delayMinutes?: number;
+  time?: string; // HH:MM in local time, the next occurrence
+  repeat?: ScheduleRepeat;
+  clientId?: string | null;
+};
+
+// One-off actions missed by more than this while the process wasn't running are dropped instead of run late
+const MISSED_GRACE_MS = 15 * 60_000;
+
+function parseTime(time: string) {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time ${time}, expected HH:MM like 07:30`);
+  }
+  return { hours: Number(match[1]), minutes: Number(match[2]) };
+}
+
+function isRepeatDay(repeat: ScheduleRepeat, date: Date) {
+  const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+  return repeat === "weekdays"
+    ? !isWeekend
+    : repeat === "weekends"
+      ? isWeekend
+      : true;
+}
+
+/**
+ * @returns {Date} the first time after `after` at the local time on a day the action repeats on
+ */
+function getNextRunAt(time: string, repeat: ScheduleRepeat, after: Date) {
+  const { hours, minutes } = parseTime(time);
+  for (let days = 0; days <= 7; days++) {
+    const candidate = new Date(after);
+    candidate.setDate(candidate.getDate() + days);
+    candidate.setHours(hours, minutes, 0, 0);
+    if (candidate > after && isRepeatDay(repeat, candidate)) {
+      return candidate;
+    }
+  }
+  throw new Error(`No next run for ${repeat} at ${time}`);
+}
+
+export class Scheduler {
+  private path: string;
+  private run: (action: ScheduledAction) => Promise<string>;
+  private now: () => Date;
+  private checkIntervalMs: number;
+  private actions: ScheduledAction[] = [];
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+
+  /**
+   * @param run - carries out an action when it is due, returns a description of the outcome
+   * @param now - injectable clock, runDueActions() can be called directly instead of waiting for the interval
+   * @param checkIntervalMs - how often due actions are looked for
+   */
+  constructor(
+    path: string,
+    run: (action: ScheduledAction) => Promise<string>,
+    {
+      now = () => new Date(),
+      checkIntervalMs = 10_000,
+    }: { now?: () => Date; checkIntervalMs?: number } = {},
+  ) {
+    this.path = path;
+    this.run = run;
+    this.now = now;
+    this.checkIntervalMs = checkIntervalMs;
+  }
+
+  /**
+   * Loads the persisted actions, catches up on the ones that came due in the meantime and starts checking
+   */
+  start() {
+    this.actions = this.load();
+    this.interval = setInterval(
+      () => this.runDueActions(),
+      this.checkIntervalMs,
+    );
+    return this.runDueActions();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * @throws {Error} if the timing is missing, ambiguous or invalid
+   */
+  schedule({
+    state,
+    target,
+    delayMinutes,
+    time,
+    repeat = "once",
+    clientId = null,
+  }: ScheduleRequest): ScheduledAction {
+    if ((delayMinutes === undefined) === (time === undefined)) {
+      throw new Error("Provide exactly one of delayMinutes or time");
+    }
+    if (repeat !== "once" && time === undefined) {
+      throw new Error(`Repeating ${repeat} needs a time`);
+    }
+    if (delayMinutes !== undefined && !(delayMinutes > 0)) {
+      throw new Error("delayMinutes must be positive");
+    }
+    const now = this.now();
+    const action: ScheduledAction = {
+      id: randomUUID().slice(0, 8),
+      state,
+      target,
+      repeat,
+      time: repeat === "once" ? null : time!,
+      nextRunAt:
+        time !== undefined
+          ? getNextRunAt(time, repeat, now)
+          : new Date(now.getTime() + delayMinutes! * 60_000),
+      createdAt: now,
+      lastRunAt: null,
+      lastResult: null,
+      clientId,
+    };
+    this.actions.push(action);
+    this.save();
+    return action;
+  }
+
+  /**
+   * @returns {ScheduledAction[]} pending actions, the next due first
+   */
+  getActions(): ScheduledAction[] {
+    return [...this.actions].sort(
+      (a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime(),
+    );
+  }
+
+  /**
+   * @throws {Error} if there is no pending action with the ID
+   */
+  getAction(id: string): ScheduledAction {
+    const action = this.actions.find((a) => a.id === id);
+    if (!action) {
+      throw new Error(`Scheduled action not found: ${id}`);
+    }
+    return action;
+  }
+
+  /**
+   * @returns {ScheduledAction} the cancelled action
+   */
+  cancel(id: string): ScheduledAction {
+    const action = this.getAction(id);
+    this.actions = this.actions.filter((a) => a !== action);
+    this.save();
+    return action;
+  }
+
+  /**
+   * Runs every action that is due, one at a time. One-off actions are removed afterwards,
+   * recurring ones move on to their next run.
+   */
+  async runDueActions() {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+    try {
+      const now = this.now();
+      const dueActions = this.getActions().filter(
+        (action) => action.nextRunAt <= now,
+      );
+      for (const action of dueActions) {
+        const isMissed =
+          now.getTime() - action.nextRunAt.getTime() > MISSED_GRACE_MS;
+        if (isMissed) {
+          console.error(
+            `Skipping scheduled action ${action.id}, it was due at ${action.nextRunAt.toISOString()}`,
+          );
+        } else {
+          action.lastResult = await this.run(action).catch(
+            (error) =>
+              `Failed: ${error instanceof Error ? error.message : error}`,
+          );
+          action.lastRunAt = now;
+        }
+        if (action.repeat === "once") {
+          this.actions = this.actions.filter((a) => a !== action);
+        } else {
+          action.nextRunAt = getNextRunAt(action.time!, action.repeat, now);
+        }
+      }
+      if (dueActions.length > 0) {
+        this.save();
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private load(): ScheduledAction[] {
+    let text: string;
+    try {
+      text = readFileSync(this.path, "utf8");
+    } catch (error) {
+      // Nothing has been scheduled yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    const result = scheduleFileSchema.safeParse(JSON.parse(text));
+    if (!result.success) {
+      throw new Error(
+        `Invalid scheduled actions ${this.path}: ${result.error.message}`,
+      );
+    }
+    return result.data.actions;
+  }
+
+  /**
+   * Writes to a temporary file first so a crash can't leave half a file behind
+   */
+  private save() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(
+      temporaryPath,
+      JSON.stringify({ actions: this.actions }, null, 2),
+    );
+    renameSync(temporaryPath, this.path);
+  }
+}
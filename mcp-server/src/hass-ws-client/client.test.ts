@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { once } from "node:events";
+import { HomeAssistantWebSocketClient } from "./client";
+import { FakeHomeAssistantServer } from "./fake-server";
+
+let server: FakeHomeAssistantServer;
+let client: HomeAssistantWebSocketClient;
+
+async function connect(options: { dryRun?: boolean } = {}) {
+  client = new HomeAssistantWebSocketClient(server.host, "fake-token", {
+    reconnectInitialDelayMs: 50,
+    ...options,
+  });
+  const states = once(client.eventEmitter, "entity_states");
+  client.connect();
+  const [entityStates] = await states;
+  return entityStates;
+}
+
+beforeEach(async () => {
+  server = new FakeHomeAssistantServer();
+  await server.start();
+});
+
+afterEach(async () => {
+  client?.close();
+  await server.stop();
+});
+
+describe("HomeAssistantWebSocketClient", () => {
+  test("authenticates and receives the entity states", async () => {
+    const entityStates = await connect();
+    expect(client.connectionState).toBe("connected");
+    expect(entityStates["light.office_ceiling"].s).toBe("on");
+    expect(entityStates["light.bedside_lamp"].s).toBe("off");
+  });
+
+  test("stops with an invalid token", async () => {
+    client = new HomeAssistantWebSocketClient(server.host, "wrong-token");
+    const closed = new Promise<void>((resolve) =>
+      client.eventEmitter.on("connection_state", (state) => {
+        if (state === "closed") {
+          resolve();
+        }
+      }),
+    );
+    client.connect();
+    await closed;
+    expect(server.serviceCalls).toHaveLength(0);
+  });
+
+  test("sends service calls and receives the state change", async () => {
+    await connect();
+    const change = once(client.eventEmitter, "entity_state_change");
+    await client.sendTurnOnLight("light.bedside_lamp");
+    const [diff] = await change;
+    expect(diff["light.bedside_lamp"]["+"]?.s).toBe("on");
+    expect(server.serviceCalls).toHaveLength(1);
+  });
+
+  test("de-duplicates identical calls", async () => {
+    await connect();
+    await Promise.all([
+      client.sendTurnOffLight("light.floor_lamp"),
+      client.sendTurnOffLight("light.floor_lamp"),
+    ]);
+    expect(server.serviceCalls).toHaveLength(1);
+  });
+
+  test("coalesces queued calls from the same caller only", async () => {
+    await connect();
+    const caller = {};
+    const target = { entity_id: "light.kitchen_spots" };
+    // The first call is sent right away, the others wait in the queue
+    const results = await Promise.all([
+      client.callService(
+        "light",
+        "turn_on",
+        {},
+        { entity_id: "light.bedside_lamp" },
+      ),
+      client.callService("light", "turn_on", {}, target, { caller }),
+      client.callService("light", "turn_off", {}, target, { caller }),
+    ]);
+    expect(server.serviceCalls).toHaveLength(2);
+    expect(results.map((result) => result.superseded ?? false)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+
+    await Promise.all([
+      client.callService(
+        "light",
+        "turn_on",
+        {},
+        { entity_id: "light.bedside_lamp" },
+      ),
+      client.callService("light", "turn_on", {}, target, { caller: {} }),
+      client.callService("light", "turn_off", {}, target, { caller: {} }),
+    ]);
+    expect(server.serviceCalls).toHaveLength(5);
+  });
+
+  test("records service calls instead of sending them in dry-run mode", async () => {
+    await connect({ dryRun: true });
+    const recorded = once(client.eventEmitter, "service_call_recorded");
+    await client.sendTurnOnLight("light.bedside_lamp");
+    expect(server.serviceCalls).toHaveLength(0);
+    expect(await recorded).toEqual([
+      {
+        domain: "light",
+        service: "turn_on",
+        serviceData: {},
+        target: { entity_id: "light.bedside_lamp" },
+      },
+    ]);
+  });
+
+  test("reconnects after the connection drops", async () => {
+    await connect();
+    const resynced = once(client.eventEmitter, "entity_states");
+    server.disconnectAll();
+    await resynced;
+    expect(client.connectionState).toBe("connected");
+  });
+});
@@ -0,0 +1,241 @@
+/* Seed data for the fake Home Assistant server */
+import type {
+  HassArea,
+  HassDevice,
+  HassEntity,
+  HassEntityState,
+  HassFloor,
+} from "./client";
+
+export type FakeHassFixture = {
+  floors: HassFloor[];
+  areas: HassArea[];
+  devices: HassDevice[];
+  entities: HassEntity[];
+  states: Record<string, HassEntityState>;
+};
+
+type FakeDevice = {
+  areaId: string | null;
+  name: string;
+  isDeviceless?: boolean; // e.g. groups and template entities, areaId is then set on the entity
+  entityId: string;
+  state: string;
+  attributes?: Record<string, unknown>;
+};
+
+function createFixture(
+  floors: HassFloor[],
+  areas: HassArea[],
+  devices: FakeDevice[],
+) {
+  const fixture: FakeHassFixture = {
+    floors,
+    areas,
+    devices: [],
+    entities: [],
+    states: {},
+  };
+  for (const device of devices) {
+    if (device.isDeviceless) {
+      fixture.entities.push({
+        area_id: device.areaId,
+        device_id: null,
+        entity_id: device.entityId,
+      });
+      fixture.states[device.entityId] = {
+        s: device.state,
+        a: { friendly_name: device.name, ...device.attributes },
+      };
+      continue;
+    }
+    const deviceId = `device_${device.entityId.replace(".", "_")}`;
+    fixture.devices.push({
+      area_id: device.areaId,
+      id: deviceId,
+      manufacturer: "Fake Devices Inc.",
+      model: "Fake Device",
+      name: device.name,
+      name_by_user: null,
+    });
+    fixture.entities.push({
+      area_id: null,
+      device_id: deviceId,
+      entity_id: device.entityId,
+    });
+    fixture.states[device.entityId] = {
+      s: device.state,
+      a: { friendly_name: device.name, ...device.attributes },
+    };
+  }
+  return fixture;
+}
+
+function light(
+  areaId: string | null,
+  name: string,
+  entityId: string,
+  state: "on" | "off" | "unavailable",
+  brightness = 255,
+  {
+    supportedColorModes = ["brightness"],
+    effectList,
+  }: { supportedColorModes?: string[]; effectList?: string[] } = {},
+): FakeDevice {
+  const supportsColorTemperature = supportedColorModes.includes("color_temp");
+  const supportsColor = supportedColorModes.some((mode) =>
+    ["hs", "xy", "rgb", "rgbw", "rgbww"].includes(mode),
+  );
+  return {
+    areaId,
+    name,
+    entityId,
+    state,
+    attributes: {
+      color_mode: state === "on" ? supportedColorModes[0] : null,
+      brightness: state === "on" ? brightness : null,
+      supported_color_modes: supportedColorModes,
+      ...(supportsColorTemperature && {
+        color_temp_kelvin: state === "on" ? 4000 : null,
+        min_color_temp_kelvin: 2000,
+        max_color_temp_kelvin: 6500,
+      }),
+      ...(supportsColor && { rgb_color: null }),
+      ...(effectList && { effect: null, effect_list: effectList }),
+    },
+  };
+}
+
+/**
+ * Includes the areas in config.example.yaml so the entrypoints run unchanged against the fake server
+ */
+export function getDefaultFixture(): FakeHassFixture {
+  return createFixture(
+    [
+      {
+        floor_id: "ground_floor",
+        name: "Ground Floor",
+        level: 0,
+        aliases: ["downstairs"],
+      },
+      {
+        floor_id: "upstairs",
+        name: "Upstairs",
+        level: 1,
+        aliases: ["first floor"],
+      },
+    ],
+    [
+      {
+        aliases: ["family room"],
+        area_id: "living_room",
+        floor_id: "ground_floor",
+        name: "Living Room",
+      },
+      {
+        aliases: [],
+        area_id: "kitchen",
+        floor_id: "ground_floor",
+        name: "Kitchen",
+      },
+      {
+        aliases: ["master bedroom"],
+        area_id: "bedroom",
+        floor_id: "upstairs",
+        name: "Bedroom",
+      },
+      {
+        aliases: ["study"],
+        area_id: "office",
+        floor_id: "upstairs",
+        name: "Office",
+      },
+      {
+        aliases: [],
+        area_id: "garage",
+        floor_id: "ground_floor",
+        name: "Garage",
+      },
+    ],
+    [
+      light(
+        "living_room",
+        "Living Room Ceiling",
+        "light.living_room_ceiling",
+        "off",
+        255,
+        {
+          supportedColorModes: ["color_temp", "hs"],
+          effectList: ["colorloop", "candle"],
+        },
+      ),
+      light("living_room", "Floor Lamp", "light.floor_lamp", "on", 128),
+      light("kitchen", "Kitchen Spots", "light.kitchen_spots", "off"),
+      light("bedroom", "Bedside Lamp", "light.bedside_lamp", "off"),
+      light("office", "Office Ceiling", "light.office_ceiling", "on", 255, {
+        supportedColorModes: ["color_temp"],
+      }),
+      light("office", "Desk Lamp", "light.desk_lamp", "unavailable"),
+      {
+        areaId: "living_room",
+        name: "Living Room Speaker",
+        entityId: "media_player.living_room_speaker",
+        state: "paused",
+        attributes: {
+          volume_level: 0.3,
+          is_volume_muted: false,
+          media_title: "Focus Playlist",
+        },
+      },
+      {
+        areaId: "living_room",
+        name: "Front Door",
+        entityId: "lock.front_door",
+        state: "locked",
+      },
+      {
+        areaId: "kitchen",
+        name: "Coffee Machine",
+        entityId: "switch.coffee_machine",
+        state: "off",
+      },
+      {
+        areaId: "bedroom",
+        name: "Ceiling Fan",
+        entityId: "fan.bedroom_ceiling_fan",
+        state: "off",
+        attributes: { percentage: 0 },
+      },
+      {
+        areaId: "office",
+        name: "Office Thermostat",
+        entityId: "climate.office_thermostat",
+        state: "heat",
+        attributes: {
+          current_temperature: 20.5,
+          temperature: 21,
+          hvac_action: "heating",
+          hvac_modes: ["off", "heat"],
+        },
+      },
+      {
+        areaId: "office",
+        name: "Office Temperature",
+        entityId: "sensor.office_temperature",
+        state: "20.8",
+        attributes: { unit_of_measurement: "°C", device_class: "temperature" },
+      },
+      {
+        ...light(null, "All Downstairs Lights", "light.downstairs", "off"),
+        isDeviceless: true,
+      },
+      {
+        areaId: "garage",
+        name: "Garage Door",
+        entityId: "cover.garage_door",
+        state: "closed",
+        attributes: { current_position: 0, device_class: "garage" },
+      },
+    ],
+  );
+}
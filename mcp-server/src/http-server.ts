@@ -0,0 +1,293 @@
+/* Serves MCP over Streamable HTTP at /mcp, and over the older HTTP+SSE transport at /sse for clients that don't support it yet */
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * A connected client with its own MCP server, keyed by the session ID. Only the client that started
+ * the session can use it.
+ */
+type Session = {
+  clientId: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  openRequests: number; // including a GET stream the client keeps open for notifications
+  idleTimeout: ReturnType<typeof setTimeout> | null;
+};
+
+// The transports pass auth on to the tool handlers as extra.authInfo
+type AuthenticatedRequest = IncomingMessage & { auth: AuthInfo };
+
+// Errors are sent as JSON-RPC responses, the request they belong to isn't known yet
+function sendError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+function getBearerToken(req: IncomingMessage) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  return match ? match[1] : null;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export class McpHttpServer {
+  private createMcpServer: (auth: AuthInfo) => McpServer;
+  private authenticate: (token: string) => AuthInfo | null;
+  private port: number;
+  private maxSessions: number;
+  private sessionIdleTimeoutMs: number;
+  private httpServer: Server;
+  private sessions = new Map<string, Session>();
+
+  /**
+   * @param createMcpServer - called for every new session with the client that started it, the servers
+   * share everything else
+   * @param authenticate - identifies the client a bearer token belongs to, null rejects the request
+   * @param maxSessions - new sessions are refused while this many are open
+   * @param sessionIdleTimeoutMs - Streamable HTTP sessions without an open request for this long are
+   * closed, clients that go away without ending their session would otherwise keep it forever
+   */
+  constructor(
+    createMcpServer: (auth: AuthInfo) => McpServer,
+    {
+      port,
+      authenticate,
+      maxSessions = 100,
+      sessionIdleTimeoutMs = 30 * 60_000,
+    }: {
+      port: number;
+      authenticate: (token: string) => AuthInfo | null;
+      maxSessions?: number;
+      sessionIdleTimeoutMs?: number;
+    },
+  ) {
+    this.createMcpServer = createMcpServer;
+    this.authenticate = authenticate;
+    this.port = port;
+    this.maxSessions = maxSessions;
+    this.sessionIdleTimeoutMs = sessionIdleTimeoutMs;
+    this.httpServer = createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  /**
+   * Resolves once the server is listening
+   */
+  start() {
+    return new Promise<void>((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.port, () => {
+        this.httpServer.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Closes every session and stops listening
+   */
+  async close() {
+    await Promise.all(
+      [...this.sessions.values()].map((session) => session.server.close()),
+    );
+    this.sessions.clear();
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close((error) => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const token = getBearerToken(req);
+      const auth = token ? this.authenticate(token) : null;
+      if (!auth) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="home-assistant"');
+        sendError(res, 401, "Missing or invalid bearer token");
+        return;
+      }
+      const authenticatedReq = Object.assign(req, { auth });
+      if (url.pathname === "/mcp") {
+        await this.handleStreamableRequest(authenticatedReq, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await this.handleSseConnection(authenticatedReq, res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await this.handleSseMessage(authenticatedReq, res, url);
+      } else {
+        sendError(res, 404, "Not found");
+      }
+    } catch (error) {
+      console.error("Failed to handle MCP request:", error);
+      if (!res.headersSent) {
+        sendError(res, 500, "Internal server error");
+      }
+    }
+  }
+
+  /**
+   * A session starts with an initialize request without a session ID, every later request carries the ID
+   */
+  private async handleStreamableRequest(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+  ) {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.getSession(sessionId, req.auth);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+    if (req.method !== "POST") {
+      sendError(res, 400, "Missing session ID, send an initialize request");
+      return;
+    }
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendError(res, 400, "Invalid JSON");
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, "Missing session ID, send an initialize request");
+      return;
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      sendError(res, 503, "Too many open sessions, try again later");
+      return;
+    }
+    const server = this.createMcpServer(req.auth);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = {
+          clientId: req.auth.clientId,
+          server,
+          transport,
+          openRequests: 0,
+          idleTimeout: null,
+        };
+        this.sessions.set(id, session);
+        this.startIdleTimeout(session);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        const session = this.sessions.get(transport.sessionId);
+        if (session?.idleTimeout) {
+          clearTimeout(session.idleTimeout);
+        }
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * The event stream stays open for the session, the client posts its messages to /messages
+   */
+  private async handleSseConnection(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+  ) {
+    if (this.sessions.size >= this.maxSessions) {
+      sendError(res, 503, "Too many open sessions, try again later");
+      return;
+    }
+    const server = this.createMcpServer(req.auth);
+    // The session ends when the client closes the event stream, so it needs no idle timeout
+    const transport = new SSEServerTransport("/messages", res);
+    this.sessions.set(transport.sessionId, {
+      clientId: req.auth.clientId,
+      server,
+      transport,
+      openRequests: 0,
+      idleTimeout: null,
+    });
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+    url: URL,
+  ) {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = this.getSession(sessionId, req.auth);
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  /**
+   * The session is idle again once none of its requests is open
+   */
+  private trackRequest(session: Session, res: ServerResponse) {
+    session.openRequests++;
+    if (session.idleTimeout) {
+      clearTimeout(session.idleTimeout);
+      session.idleTimeout = null;
+    }
+    res.once("close", () => {
+      session.openRequests--;
+      if (session.openRequests === 0) {
+        this.startIdleTimeout(session);
+      }
+    });
+  }
+
+  private startIdleTimeout(session: Session) {
+    const { sessionId } = session.transport;
+    // The session may have ended while the request was open
+    if (!sessionId || this.sessions.get(sessionId) !== session) {
+      return;
+    }
+    session.idleTimeout = setTimeout(() => {
+      console.error(`Closing session ${sessionId}, it has been idle too long`);
+      session.server.close().catch((error) => {
+        console.error(`Failed to close session ${sessionId}:`, error);
+      });
+    }, this.sessionIdleTimeoutMs);
+  }
+
+  /**
+   * Sessions of other clients are reported as not found
+   */
+  private getSession(sessionId: string, auth: AuthInfo) {
+    const session = this.sessions.get(sessionId);
+    return session?.clientId === auth.clientId ? session : null;
+  }
+}
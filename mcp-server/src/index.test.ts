@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { FakeHomeAssistantServer } from "./hass-ws-client/fake-server";
+
+let server: FakeHomeAssistantServer;
+let client: Client;
+let directory: string;
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  return {
+    isError: result.isError ?? false,
+    text: content.map((item) => item.text).join("\n"),
+  };
+}
+
+beforeAll(async () => {
+  server = new FakeHomeAssistantServer();
+  await server.start();
+  directory = mkdtempSync(join(tmpdir(), "mcp-server-"));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["run", fileURLToPath(new URL("./index.ts", import.meta.url))],
+    cwd: directory,
+    env: {
+      PATH: process.env.PATH ?? "",
+      HOME_ASSISTANT_HOST: server.host,
+      HOME_ASSISTANT_TOKEN: "fake-token",
+      HOME_ASSISTANT_SECURE: "false",
+      HOME_ASSISTANT_SCHEDULE_PATH: join(directory, "scheduled-actions.json"),
+      HOME_ASSISTANT_SCENES_PATH: join(directory, "scenes.json"),
+      HOME_ASSISTANT_MCP_TOKENS_PATH: join(directory, "tokens.json"),
+    },
+    stderr: "ignore",
+  });
+  client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+});
+
+afterAll(async () => {
+  await client?.close();
+  await server.stop();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("MCP server", () => {
+  test("lists the light tools", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("control_light");
+  });
+
+  test("control_light turns an area's lights on", async () => {
+    const { isError, text } = await callTool("control_light", {
+      target: "kitchen",
+      state: "on",
+    });
+    expect(isError).toBe(false);
+    expect(text).toContain("light.kitchen_spots");
+    expect(server.serviceCalls.at(-1)).toMatchObject({
+      domain: "light",
+      service: "turn_on",
+    });
+  });
+
+  test("control_light returns the candidates for an ambiguous target", async () => {
+    const callCount = server.serviceCalls.length;
+    const { text } = await callTool("control_light", {
+      target: "downstairs",
+      state: "off",
+    });
+    expect(text).toContain("Ground Floor");
+    expect(text).toContain("All Downstairs Lights");
+    expect(server.serviceCalls).toHaveLength(callCount);
+  });
+
+  test("undo restores the lights of the last action", async () => {
+    const { isError, text } = await callTool("undo", {});
+    expect(isError).toBe(false);
+    expect(text).toContain("light.kitchen_spots (off)");
+  });
+});
@@ -1,10 +1,55 @@
-import { HomeAssistantWebSocketClient } from "./hass-ws-client/client";
+import {
+  type HassServiceCall,
+  HomeAssistantWebSocketClient,
+} from "./hass-ws-client/client";
 import { DataManager } from "./data-manager/data-manager";
-import { dashboardConfigs } from "./data-manager/config";
+import {
+  getConfigPath,
+  getDefaultConfig,
+  getScenesPath,
+  getSchedulePath,
+  getTokenStorePath,
+  getTransportOptions,
+  isDryRunEnabled,
+  loadConfig,
+  watchConfig,
+} from "./data-manager/config";
+import {
+  EntityTypes,
+  UNASSIGNED_AREA_ID,
+  type Area,
+  type BrightnessCommandResult,
+  type Entity,
+  type Light,
+  type LightCommandResult,
+  type Scene,
+} from "./data-manager/data";
+import {
+  type TargetCandidate,
+  type TargetResolution,
+} from "./data-manager/resolver";
+import { AccessPolicy, PolicyDeniedError } from "./data-manager/policy";
+import type { JournalEntry } from "./data-manager/journal";
+import {
+  Scheduler,
+  type ScheduledAction,
+  type ScheduleRepeat,
+} from "./data-manager/scheduler";
 import invariant from "tiny-invariant";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { fileURLToPath } from "node:url";
+import { McpHttpServer } from "./http-server";
+import { TokenStore } from "./token-store";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 
 // Validate environment variables
 invariant(process.env.HOME_ASSISTANT_HOST, "HOME_ASSISTANT_HOST must be set");
@@ -21,63 +66,1457 @@ const hassClient = new HomeAssistantWebSocketClient(
   {
     isSecure: process.env.HOME_ASSISTANT_SECURE === "true",
     shouldLog: false,
+    dryRun: isDryRunEnabled(),
   },
 );
-const dataManager = new DataManager(hassClient);
+// Load the area and light group config, reloading it whenever the file changes
+const configPath = getConfigPath();
+const initialConfig = configPath ? loadConfig(configPath) : getDefaultConfig();
+const dataManager = new DataManager(hassClient, {
+  config: initialConfig,
+  scenesPath: getScenesPath(
+    fileURLToPath(new URL("../scenes.json", import.meta.url)),
+  ),
+});
+// Every tool checks the policy before it reads or changes anything
+const policy = new AccessPolicy(initialConfig);
+if (configPath) {
+  watchConfig(configPath, (config) => {
+    dataManager.setConfig(config);
+    policy.setConfig(config);
+    console.error(`Reloaded config from ${configPath}`);
+  });
+}
+if (hassClient.isDryRun) {
+  console.error(
+    "Dry run: service calls are recorded instead of sent to Home Assistant",
+  );
+}
 dataManager.start();
-await new Promise((resolve) => setTimeout(resolve, 2000));
+await dataManager.ready(30_000);
+// The MCP clients that may connect over HTTP, managed with bun run token
+const tokenStore = new TokenStore(
+  getTokenStorePath(fileURLToPath(new URL("../tokens.json", import.meta.url))),
+);
+// Delayed and recurring light actions, kept next to the package unless configured otherwise.
+// They run with the permissions of the client that scheduled them.
+const scheduler = new Scheduler(
+  getSchedulePath(
+    fileURLToPath(new URL("../scheduled-actions.json", import.meta.url)),
+  ),
+  async (action) => {
+    const { result } = await policy.runAs(
+      getPolicyClient(action.clientId),
+      () =>
+        dataManager.runAction(
+          "scheduler",
+          () => switchTarget(action.target, action.state),
+          { clientId: action.clientId },
+        ),
+    );
+    return result;
+  },
+);
+await scheduler.start();
 
-async function controlLight(params: {
-  areaId: string;
+/**
+ * Reports the outcome for every light, e.g. "2 of 3 light(s) in office are off" followed by one line per light
+ */
+function describeLightResults(
+  results: LightCommandResult[],
+  state: "on" | "off",
+  location: string,
+) {
+  if (results.length === 0) {
+    return `There are no lights ${location}`;
+  }
+  const succeeded = results.filter(
+    (result) => result.outcome === "changed" || result.outcome === "already",
+  );
+  const lines = results.map(
+    (result) =>
+      `- ${result.entityId} (${result.name}): ${result.outcome}${result.error ? ` (${result.error})` : ""}`,
+  );
+  return [
+    `${succeeded.length} of ${results.length} light(s) ${location} are ${state}`,
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Reports the outcome for every light, e.g. "2 of 3 light(s) in office are at the new brightness" followed
+ * by one line per light with its brightness before and after
+ */
+function describeBrightnessResults(
+  results: BrightnessCommandResult[],
+  location: string,
+) {
+  if (results.length === 0) {
+    return `There are no lights ${location}`;
+  }
+  const succeeded = results.filter(
+    (result) => result.outcome === "changed" || result.outcome === "already",
+  );
+  const lines = results.map((result) => {
+    const change =
+      result.outcome === "unavailable"
+        ? ""
+        : ` ${result.previousBrightnessPercentage}% -> ${result.brightnessPercentage}%`;
+    return `- ${result.entityId} (${result.name}): ${result.outcome}${change}${result.error ? ` (${result.error})` : ""}`;
+  });
+  return [
+    `${succeeded.length} of ${results.length} light(s) ${location} are at the new brightness`,
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Lists the service calls a tool call would have made in dry-run mode, e.g. "- light.turn_on {"brightness":128} on {"entity_id":"light.desk_lamp"}"
+ */
+function describeDryRun(calls: HassServiceCall[]) {
+  const lines = calls.map(
+    (call) =>
+      `- ${call.domain}.${call.service} ${JSON.stringify(call.serviceData)}${call.target ? ` on ${JSON.stringify(call.target)}` : ""}`,
+  );
+  return [
+    "Dry run: nothing was sent to Home Assistant, the outcome above is simulated. It would have received:",
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Lists the candidates to choose from when a target didn't resolve to a single area, floor or light
+ */
+function describeUnresolvedTarget(resolution: TargetResolution) {
+  if (resolution.candidates.length === 0) {
+    throw new Error(`No area, floor or light matches "${resolution.query}"`);
+  }
+  const candidates = resolution.candidates.map(
+    (candidate) =>
+      `- ${candidate.id} (${candidate.type} "${candidate.name}"${candidate.areaId ? ` in ${candidate.areaId}` : ""})`,
+  );
+  return [
+    `"${resolution.query}" is ambiguous, ask the user which one they mean:`,
+    ...candidates,
+  ].join("\n");
+}
+
+// The entity and its area as the policy sees them, unknown entities are reported by the DataManager
+function getPolicyEntities(entityId: string) {
+  return [
+    { entityId, areaId: dataManager.getEntity(entityId)?.areaId ?? null },
+  ];
+}
+
+type LightTarget = Pick<TargetCandidate, "type" | "id" | "name">;
+
+function assertCanSwitch(target: LightTarget, state: "on" | "off") {
+  assertCanChangeTarget(state === "on" ? "turn_on" : "turn_off", target);
+}
+
+function assertCanChangeTarget(action: string, target: LightTarget) {
+  if (target.type === "light") {
+    policy.assertCanChange(action, getPolicyEntities(target.id));
+  } else if (target.type === "group") {
+    policy.assertCanChange(action, dataManager.getLightGroupLights(target.id));
+  } else if (target.type === "floor") {
+    policy.assertCanChange(
+      action,
+      dataManager.getFloorLights(target.id),
+      dataManager.getFloorAreas(target.id).map((area) => area.id),
+    );
+  } else {
+    policy.assertCanChange(action, dataManager.getLights(target.id), [
+      target.id,
+    ]);
+  }
+}
+
+/**
+ * Switches a resolved area, light, light group or floor, used by control_light, control_floor_lights and
+ * scheduled actions
+ */
+async function switchTarget(target: LightTarget, state: "on" | "off") {
+  assertCanSwitch(target, state);
+  if (target.type === "light") {
+    const result = await dataManager.switchLight(target.id, state);
+    return describeLightResults([result], state, `named ${target.name}`);
+  }
+  if (target.type === "group") {
+    const results =
+      state === "on"
+        ? await dataManager.turnOnLightGroup(target.id)
+        : await dataManager.turnOffLightGroup(target.id);
+    return describeLightResults(results, state, `in group ${target.name}`);
+  }
+  if (target.type === "floor") {
+    const results =
+      state === "on"
+        ? await dataManager.turnOnAllLightsOnFloor(target.id)
+        : await dataManager.turnOffAllLightsOnFloor(target.id);
+    return describeLightResults(results, state, `on floor ${target.name}`);
+  }
+  const results =
+    state === "on"
+      ? await dataManager.turnOnAllLights(target.id)
+      : await dataManager.turnOffAllLights(target.id);
+  return describeLightResults(results, state, `in ${target.id}`);
+}
+
+async function controlLight(params: { target: string; state: "on" | "off" }) {
+  const resolution = dataManager.resolveTarget(params.target);
+  if (!resolution.match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  return switchTarget(resolution.match, params.state);
+}
+
+async function setBrightness(params: {
+  target: string;
+  brightness: number;
+  mode?: "absolute" | "relative";
+}) {
+  const resolution = dataManager.resolveTarget(params.target);
+  const { match } = resolution;
+  if (!match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  const relative = params.mode === "relative";
+  if (!relative && params.brightness < 0) {
+    throw new Error("An absolute brightness must be between 0 and 100");
+  }
+  // Setting the brightness to 0 turns the lights off, e.g. allowed during quiet hours
+  const action =
+    !relative && params.brightness === 0 ? "turn_off" : "set_brightness";
+  const options = { relative };
+  if (match.type === "light") {
+    policy.assertCanChange(action, getPolicyEntities(match.id));
+    const result = await dataManager.setLightBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults([result], `named ${match.name}`);
+  }
+  if (match.type === "group") {
+    policy.assertCanChange(action, dataManager.getLightGroupLights(match.id));
+    const results = await dataManager.setLightGroupBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults(results, `in group ${match.name}`);
+  }
+  if (match.type === "floor") {
+    policy.assertCanChange(
+      action,
+      dataManager.getFloorLights(match.id),
+      dataManager.getFloorAreas(match.id).map((area) => area.id),
+    );
+    const results = await dataManager.setAllLightsOnFloorBrightness(
+      match.id,
+      params.brightness,
+      options,
+    );
+    return describeBrightnessResults(results, `on floor ${match.name}`);
+  }
+  policy.assertCanChange(action, dataManager.getLights(match.id), [match.id]);
+  const results = await dataManager.setAllLightsBrightness(
+    match.id,
+    params.brightness,
+    options,
+  );
+  return describeBrightnessResults(results, `in ${match.id}`);
+}
+
+async function controlFloorLights(params: {
+  floor: string;
   state: "on" | "off";
 }) {
-  if (params.state === "on") {
-    await dataManager.turnOnAllLights(params.areaId);
+  const resolution = dataManager.resolveTarget(params.floor, {
+    types: ["floor"],
+  });
+  if (!resolution.match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  return switchTarget(resolution.match, params.state);
+}
+
+async function setLightColor(params: {
+  areaId: string;
+  entityId?: string;
+  color?: string;
+  kelvin?: number;
+  effect?: string;
+  transition?: number;
+}) {
+  const { areaId, entityId, color, kelvin, effect, transition } = params;
+  const options = { transition };
+  const given = [color, kelvin, effect].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    throw new Error("Provide exactly one of color, kelvin or effect");
+  }
+  const change =
+    color !== undefined
+      ? `color ${color}`
+      : kelvin !== undefined
+        ? `color temperature ${kelvin}K`
+        : `effect ${effect}`;
+  if (entityId) {
+    policy.assertCanChange("set_color", getPolicyEntities(entityId));
+    if (color !== undefined) {
+      await dataManager.setColor(entityId, color, options);
+    } else if (kelvin !== undefined) {
+      await dataManager.setColorTemperature(entityId, kelvin, options);
+    } else if (effect !== undefined) {
+      await dataManager.setEffect(entityId, effect, options);
+    }
+    return `Set ${entityId} to ${change}`;
+  }
+  policy.assertCanChange("set_color", dataManager.getLights(areaId), [areaId]);
+  const lights =
+    color !== undefined
+      ? await dataManager.setAllLightsColor(areaId, color, options)
+      : kelvin !== undefined
+        ? await dataManager.setAllLightsColorTemperature(
+            areaId,
+            kelvin,
+            options,
+          )
+        : await dataManager.setAllLightsEffect(areaId, effect!, options);
+  if (lights.length === 0) {
+    return `No lights in ${areaId} support ${change}`;
+  }
+  const entityIds = lights.map((light) => light.entityId).join(", ");
+  return `Set ${lights.length} light(s) in ${areaId} to ${change}: ${entityIds}`;
+}
+
+async function saveScene(params: {
+  name: string;
+  areaId: string;
+  storage?: "local" | "home_assistant";
+}) {
+  // Lights the policy hides are left out of the scene, like they are left out of listings
+  const allowedLights = dataManager
+    .getLights(params.areaId)
+    .filter((light) => policy.isEntityAllowed(light.entityId));
+  if (params.storage === "home_assistant") {
+    // Creating the scene changes Home Assistant, e.g. a read-only client can't
+    policy.assertCanChange("save_scene", allowedLights, [params.areaId]);
   } else {
-    await dataManager.turnOffAllLights(params.areaId);
+    policy.assertCanRead([params.areaId], allowedLights);
+  }
+  const scene = await dataManager.saveScene(params.name, params.areaId, {
+    storage: params.storage,
+    includesLight: (entityId) => policy.isEntityAllowed(entityId),
+  });
+  const lights = scene.lights
+    .map((light) => `${light.entityId} (${light.state})`)
+    .join(", ");
+  return `Saved scene ${scene.id} with ${scene.lights.length} light(s) in ${scene.areaId}: ${lights || "none"}`;
+}
+
+// The scene's own area as well as the current areas of its entities
+function getScenePolicyScope(scene: Scene) {
+  return {
+    areaIds: scene.areaId ? [scene.areaId] : [],
+    entities: scene.entityIds.flatMap(getPolicyEntities),
+  };
+}
+
+async function applyScene(params: { name: string }) {
+  const { areaIds, entities } = getScenePolicyScope(
+    dataManager.getScene(params.name),
+  );
+  policy.assertCanChange("apply_scene", entities, areaIds);
+  const scene = await dataManager.applyScene(params.name);
+  return `Applied scene ${scene.id} to ${scene.entityIds.length} entity(ies)${scene.areaId ? ` in ${scene.areaId}` : ""}`;
+}
+
+function listScenes(params: { areaId?: string }) {
+  const scenes = dataManager.getScenes(params.areaId).filter((scene) => {
+    const { areaIds, entities } = getScenePolicyScope(scene);
+    return policy.canRead(areaIds, entities);
+  });
+  return JSON.stringify(scenes);
+}
+
+/**
+ * e.g. "1a2b3c4d: turn off area Office at Mon Oct 19 2026 18:30:00 GMT+0200, repeating weekdays at 18:30"
+ */
+function describeScheduledAction(action: ScheduledAction) {
+  const repeat =
+    action.repeat === "once"
+      ? ""
+      : `, repeating ${action.repeat} at ${action.time}`;
+  return `${action.id}: turn ${action.state} ${action.target.type} ${action.target.name} at ${action.nextRunAt.toString()}${repeat}`;
+}
+
+async function scheduleAction(params: {
+  target: string;
+  state: "on" | "off";
+  delayMinutes?: number;
+  time?: string;
+  repeat?: ScheduleRepeat;
+}) {
+  const resolution = dataManager.resolveTarget(params.target);
+  const { match } = resolution;
+  if (!match) {
+    return describeUnresolvedTarget(resolution);
+  }
+  // Checked again when the action runs, e.g. for quiet hours
+  assertCanSwitch(match, params.state);
+  const action = scheduler.schedule({
+    state: params.state,
+    target: {
+      type: match.type,
+      id: match.id,
+      name: match.name,
+      areaId: match.areaId,
+    },
+    delayMinutes: params.delayMinutes,
+    time: params.time,
+    repeat: params.repeat,
+    clientId: policy.getClient()?.id ?? null,
+  });
+  return `Scheduled ${describeScheduledAction(action)}`;
+}
+
+/**
+ * Over HTTP every client only sees, cancels and undoes what it did itself. Over stdio there is only one
+ * client, so everything is its own.
+ */
+function isOwnAction(action: { clientId: string | null }) {
+  const client = policy.getClient();
+  return !client || action.clientId === client.id;
+}
+
+function listScheduledActions() {
+  const actions = scheduler
+    .getActions()
+    .filter(
+      (action) =>
+        isOwnAction(action) &&
+        (action.target.areaId === null ||
+          policy.isAreaAllowed(action.target.areaId)),
+    );
+  return JSON.stringify(actions);
+}
+
+/**
+ * Cancelling changes what happens to the target, so it is checked like changing the target now. If the
+ * target was removed since it was scheduled, the area it was in is checked instead.
+ */
+function assertCanCancel(action: ScheduledAction) {
+  try {
+    assertCanChangeTarget("cancel_scheduled_action", action.target);
+  } catch (error) {
+    if (error instanceof PolicyDeniedError) {
+      throw error;
+    }
+    policy.assertCanChange(
+      "cancel_scheduled_action",
+      [],
+      action.target.areaId ? [action.target.areaId] : [],
+    );
+  }
+}
+
+function cancelScheduledAction(params: { id: string }) {
+  const action = scheduler.getAction(params.id);
+  // Another client's action is reported like one that doesn't exist
+  if (!isOwnAction(action)) {
+    throw new Error(`Scheduled action not found: ${params.id}`);
+  }
+  assertCanCancel(action);
+  scheduler.cancel(action.id);
+  return `Cancelled ${describeScheduledAction(action)}`;
+}
+
+// Other clients' actions, and ones that touched an entity or area the policy hides, are left out
+function canReadAction(action: JournalEntry) {
+  if (!isOwnAction(action)) {
+    return false;
+  }
+  const entityIds = new Set([
+    ...action.commands.flatMap((command) => command.entityIds),
+    ...action.previousLights.map((light) => light.entityId),
+  ]);
+  return policy.canRead([], [...entityIds].flatMap(getPolicyEntities));
+}
+
+function getRecentActions(params: { limit?: number }) {
+  return JSON.stringify(
+    dataManager.getRecentActions(params.limit, canReadAction),
+  );
+}
+
+async function undo(params: { actionId?: number }) {
+  const action = dataManager.getUndoableAction(params.actionId, canReadAction);
+  policy.assertCanChange(
+    "undo",
+    action.previousLights.flatMap((light) => getPolicyEntities(light.entityId)),
+  );
+  const restored = await dataManager.undoAction(action.id);
+  const lights = restored
+    .map((light) => `${light.entityId} (${light.state})`)
+    .join(", ");
+  return `Undid action ${action.id} (${action.source}), restored ${restored.length} light(s): ${lights || "none"}`;
+}
+
+const deviceActions = [
+  "turn_on",
+  "turn_off",
+  "open",
+  "close",
+  "stop",
+  "set_position",
+  "set_temperature",
+  "set_fan_speed",
+  "play",
+  "pause",
+  "set_volume",
+  "lock",
+  "unlock",
+] as const;
+
+function getAreaDevices(params: { areaId: string }) {
+  policy.assertCanRead([params.areaId]);
+  return JSON.stringify({
+    areaId: params.areaId,
+    temperature: dataManager.getTemperature(params.areaId),
+    devices: dataManager
+      .getEntities(params.areaId)
+      .filter((entity) => policy.isEntityAllowed(entity.entityId)),
+  });
+}
+
+// Areas and lights the policy lets the model read, for listing and searching
+function getAllowedAreas() {
+  return dataManager
+    .getExposedAreas()
+    .filter((area) => policy.isAreaAllowed(area.id));
+}
+
+function getAllowedLights() {
+  return getAllowedAreas().flatMap((area) =>
+    area.lights.filter((light) => policy.isEntityAllowed(light.entityId)),
+  );
+}
+
+/**
+ * @returns {number} the average brightness percentage of the lights, off lights count as 0
+ */
+function getAverageBrightness(lights: Light[]) {
+  if (lights.length === 0) {
+    return 0;
+  }
+  return (
+    lights.reduce((acc, light) => acc + (light.brightnessPercentage || 0), 0) /
+    lights.length
+  );
+}
+
+function getAreaSummary(area: Area) {
+  const lights = area.lights.filter((light) =>
+    policy.isEntityAllowed(light.entityId),
+  );
+  return {
+    id: area.id,
+    name: area.name,
+    aliases: area.aliases,
+    floorId: area.floorId,
+    lightCount: lights.length,
+    lightsOn: lights.filter((light) => light.state === "on").length,
+    averageBrightness: getAverageBrightness(lights),
+    temperature: dataManager.getTemperature(area.id),
+  };
+}
+
+/**
+ * The state of a light as the read-only tools report it
+ */
+function toLightState(light: Light) {
+  return {
+    entityId: light.entityId,
+    name: light.name,
+    areaId: light.areaId,
+    areaName: light.areaName,
+    state: light.state,
+    isAvailable: light.state !== "unavailable",
+    brightnessPercentage: light.brightnessPercentage,
+    rgbColor: light.rgbColor,
+    colorMode: light.colorMode,
+    colorTemperatureKelvin: light.colorTemperatureKelvin,
+    effect: light.effect,
+    isSimulated: light.isSimulated, // changed by a dry-run command, Home Assistant still reports the old state
+  };
+}
+
+function listAreas() {
+  return JSON.stringify(getAllowedAreas().map(getAreaSummary));
+}
+
+function getAreaState(params: { areaId: string }) {
+  policy.assertCanRead([params.areaId]);
+  return JSON.stringify({
+    ...getAreaSummary(dataManager.getArea(params.areaId)),
+    lights: dataManager
+      .getLights(params.areaId)
+      .filter((light) => policy.isEntityAllowed(light.entityId))
+      .map(toLightState),
+  });
+}
+
+/**
+ * A denied light gets the same error as one that doesn't exist, so callers can't tell which lights exist
+ * @throws {Error} if the light doesn't exist or the policy doesn't allow reading it
+ */
+function getReadableLight(entityId: string): Light {
+  const light = dataManager.getEntity(entityId);
+  if (
+    light?.domain !== EntityTypes.light ||
+    !policy.canRead([], getPolicyEntities(entityId))
+  ) {
+    throw new Error(`Light not found or not accessible: ${entityId}`);
+  }
+  return light;
+}
+
+function getLightState(params: { entityId: string }) {
+  const light = getReadableLight(params.entityId);
+  return JSON.stringify(toLightState(light));
+}
+
+function findLights(params: {
+  state?: Light["state"];
+  areaId?: string;
+  query?: string;
+}) {
+  if (params.areaId) {
+    policy.assertCanRead([params.areaId]);
+  }
+  const query = params.query?.trim().toLowerCase();
+  const lights = getAllowedLights().filter(
+    (light) =>
+      (!params.state || light.state === params.state) &&
+      (!params.areaId || light.areaId === params.areaId) &&
+      (!query ||
+        [light.name, light.entityId, light.areaName].some((value) =>
+          value.toLowerCase().includes(query),
+        )),
+  );
+  return JSON.stringify(lights.map(toLightState));
+}
+
+async function controlDevice(params: {
+  entityId: string;
+  action: (typeof deviceActions)[number];
+  value?: number;
+}) {
+  const { entityId, action } = params;
+  policy.assertCanChange(action, getPolicyEntities(entityId));
+  const getValue = () => {
+    if (params.value === undefined) {
+      throw new Error(`Action ${action} requires a value`);
+    }
+    return params.value;
+  };
+  switch (action) {
+    case "turn_on":
+      await dataManager.turnOnEntity(entityId);
+      break;
+    case "turn_off":
+      await dataManager.turnOffEntity(entityId);
+      break;
+    case "open":
+      await dataManager.openCover(entityId);
+      break;
+    case "close":
+      await dataManager.closeCover(entityId);
+      break;
+    case "stop":
+      await dataManager.stopCover(entityId);
+      break;
+    case "set_position":
+      await dataManager.setCoverPosition(entityId, getValue());
+      break;
+    case "set_temperature":
+      await dataManager.setTargetTemperature(entityId, getValue());
+      break;
+    case "set_fan_speed":
+      await dataManager.setFanSpeed(entityId, getValue());
+      break;
+    case "play":
+      await dataManager.playMedia(entityId);
+      break;
+    case "pause":
+      await dataManager.pauseMedia(entityId);
+      break;
+    case "set_volume":
+      await dataManager.setVolume(entityId, getValue());
+      break;
+    case "lock":
+      await dataManager.lock(entityId);
+      break;
+    case "unlock":
+      await dataManager.unlock(entityId);
+      break;
+  }
+  return `Home Assistant accepted ${action} for ${entityId}`;
+}
+
+/**
+ * The client a call is made for, null over stdio where whoever runs the server is the only client
+ * @throws {PolicyDeniedError} if the client's token was removed
+ */
+function getPolicyClient(clientId: string | null | undefined) {
+  if (!clientId) {
+    return null;
+  }
+  const client = tokenStore.getClient(clientId);
+  if (!client) {
+    throw new PolicyDeniedError(`client ${clientId} no longer has a token`);
+  }
+  return client;
+}
+
+/**
+ * Turns a tool's outcome into an MCP tool result, reporting thrown errors to the model.
+ * The commands the tool sends are recorded as one action in the journal.
+ * @param authInfo - the client over HTTP, its permissions apply on top of the policy
+ */
+async function toToolResult(
+  toolName: string,
+  run: () => string | Promise<string>,
+  authInfo?: AuthInfo,
+) {
+  try {
+    const client = getPolicyClient(authInfo?.clientId);
+    const { result, recordedServiceCalls } = await policy.runAs(client, () =>
+      dataManager.runAction(toolName, run, { clientId: client?.id ?? null }),
+    );
+    let text = result;
+    if (recordedServiceCalls.length > 0) {
+      text += `\n\n${describeDryRun(recordedServiceCalls)}`;
+    }
+    return {
+      content: [{ type: "text" as const, text }],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          // The policy's reason already says the call was denied, not that it failed
+          text:
+            error instanceof PolicyDeniedError
+              ? error.message
+              : `Command failed: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+        },
+      ],
+      isError: true,
+    };
   }
 }
 
 // Define the light control schema
 const lightControlSchema = {
-  areaId: z
+  target: z
     .string()
     .describe(
-      "The area ID of the light in Home Assistant (e.g., office, kitchen)",
+      `An area, a floor, a light group or a single light in the user's words (e.g., "office", "lounge", "upstairs", "kitchen lights", "office lamp"), an area ID, an entity ID, or "${UNASSIGNED_AREA_ID}" for lights without an area`,
     ),
   state: z.enum(["on", "off"]).describe("Whether to turn the light on or off"),
 } as const;
 
-// Create server instance
-const server = new McpServer({
-  name: "home-assistant",
-  version: "1.0.0",
-});
+const brightnessSchema = {
+  target: z
+    .string()
+    .describe(
+      `An area, a floor, a light group or a single light in the user's words (e.g., "office", "lounge", "upstairs", "kitchen lights", "office lamp"), an area ID, an entity ID, or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+    ),
+  brightness: z
+    .number()
+    .min(-100)
+    .max(100)
+    .describe(
+      "The brightness percentage (0-100) in absolute mode, the change in percentage points (-100 to 100) in relative mode",
+    ),
+  mode: z
+    .enum(["absolute", "relative"])
+    .optional()
+    .describe(
+      "absolute sets every light to the brightness, relative adds it to each light's current brightness. Defaults to absolute",
+    ),
+} as const;
 
-// Register the light control function
-server.tool(
-  "control_light",
-  "Control a light in Home Assistant (turn on/off)",
-  lightControlSchema,
-  async (params) => {
-    await controlLight(params);
-    return {
-      content: [
-        {
-          type: "text",
-          text: "Light control command executed successfully",
-        },
-      ],
-    };
-  },
-);
+const lightColorSchema = {
+  areaId: z
+    .string()
+    .describe(
+      `The area ID of the lights in Home Assistant (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+    ),
+  entityId: z
+    .string()
+    .optional()
+    .describe(
+      "A single light to change (e.g., light.living_room_ceiling), leave out to change every light in the area",
+    ),
+  color: z
+    .string()
+    .optional()
+    .describe(
+      'A color name (e.g., "red", "light blue") or hex code (e.g., #ff8800)',
+    ),
+  kelvin: z
+    .number()
+    .optional()
+    .describe(
+      "A white color temperature in kelvin (e.g., 2700 warm, 6500 cool)",
+    ),
+  effect: z
+    .string()
+    .optional()
+    .describe('A light effect supported by the light (e.g., "colorloop")'),
+  transition: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Seconds to fade to the new color"),
+} as const;
 
-// Create transport and start server
-const transport = new StdioServerTransport();
-await server.connect(transport);
+const floorLightControlSchema = {
+  floor: z
+    .string()
+    .describe(
+      'The floor in the user\'s words (e.g., "upstairs", "ground floor", "downstairs") or its floor ID',
+    ),
+  state: z.enum(["on", "off"]).describe("Whether to turn the lights on or off"),
+} as const;
+
+const saveSceneSchema = {
+  name: z
+    .string()
+    .describe(
+      'A name to restore the scene by later (e.g., "before the meeting")',
+    ),
+  areaId: z
+    .string()
+    .describe(
+      `The area ID whose lights to capture (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+    ),
+  storage: z
+    .enum(["local", "home_assistant"])
+    .optional()
+    .describe(
+      'Where to keep the scene, "home_assistant" also creates it as a scene in Home Assistant. Defaults to local',
+    ),
+} as const;
+
+const applySceneSchema = {
+  name: z
+    .string()
+    .describe(
+      "The name or ID of a saved scene or a Home Assistant scene (e.g., scene.movie_night)",
+    ),
+} as const;
+
+const listScenesSchema = {
+  areaId: z
+    .string()
+    .optional()
+    .describe("Only list scenes of this area ID, leave out for every scene"),
+} as const;
+
+const scheduleActionSchema = {
+  target: z
+    .string()
+    .describe(
+      `An area, a floor, a light group or a single light in the user's words (e.g., "office", "upstairs", "kitchen lights", "office lamp"), an area ID or an entity ID`,
+    ),
+  state: z.enum(["on", "off"]).describe("Whether to turn the lights on or off"),
+  delayMinutes: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Run once after this many minutes"),
+  time: z
+    .string()
+    .optional()
+    .describe("Local time as HH:MM (e.g., 07:00), the next occurrence"),
+  repeat: z
+    .enum(["once", "daily", "weekdays", "weekends"])
+    .optional()
+    .describe("Repeat at time on these days, defaults to once"),
+} as const;
+
+const cancelScheduledActionSchema = {
+  id: z.string().describe("The ID of a scheduled action"),
+} as const;
+
+const recentActionsSchema = {
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("How many actions to list, defaults to 10"),
+} as const;
+
+const undoSchema = {
+  actionId: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      "The ID of an action from get_recent_actions, leave out to undo the last action",
+    ),
+} as const;
+
+const areaDevicesSchema = {
+  areaId: z
+    .string()
+    .describe(
+      `The area ID in Home Assistant (e.g., office, garage), or "${UNASSIGNED_AREA_ID}" for devices without an area`,
+    ),
+} as const;
+
+const areaStateSchema = {
+  areaId: z
+    .string()
+    .describe(
+      `The area ID in Home Assistant (e.g., office, kitchen), or "${UNASSIGNED_AREA_ID}" for lights without an area`,
+    ),
+} as const;
+
+const lightStateSchema = {
+  entityId: z
+    .string()
+    .describe("The entity ID of the light (e.g., light.desk_lamp)"),
+} as const;
 
-console.log("🏠 Home Assistant MCP Server Started!");
+const findLightsSchema = {
+  state: z
+    .enum(["on", "off", "unavailable"])
+    .optional()
+    .describe("Only lights in this state, leave out for any state"),
+  areaId: z
+    .string()
+    .optional()
+    .describe("Only lights in this area ID, leave out for every area"),
+  query: z
+    .string()
+    .optional()
+    .describe(
+      'Only lights whose name, entity ID or area name contains this (e.g., "lamp")',
+    ),
+} as const;
+
+const deviceControlSchema = {
+  entityId: z
+    .string()
+    .describe(
+      "The entity ID of the device (e.g., cover.garage_door, climate.office_thermostat)",
+    ),
+  action: z
+    .enum(deviceActions)
+    .describe(
+      "turn_on/turn_off for switches, fans, media players and thermostats; open/close/stop/set_position for covers; set_temperature for thermostats; set_fan_speed for fans; play/pause/set_volume for media players; lock/unlock for locks",
+    ),
+  value: z
+    .number()
+    .optional()
+    .describe(
+      "Required for set_position (0-100), set_temperature (degrees), set_fan_speed (0-100) and set_volume (0-100)",
+    ),
+} as const;
+
+/**
+ * Creates an MCP server with every tool and resource, one per connected client
+ * @param authInfo - the client over HTTP, for the requests the SDK passes no authInfo to, e.g. completions
+ */
+function createServer(authInfo?: AuthInfo) {
+  const server = new McpServer({
+    name: "home-assistant",
+    version: "1.0.0",
+  });
+
+  // Register the light control function
+  server.tool(
+    "control_light",
+    "Control a light in Home Assistant (turn on/off). If the target is ambiguous the candidates are returned instead, ask the user to pick one",
+    lightControlSchema,
+    async (params, { authInfo }) =>
+      toToolResult("control_light", () => controlLight(params), authInfo),
+  );
+
+  server.tool(
+    "set_brightness",
+    'Set the brightness of an area, a floor, a light group or a single light, either to a percentage or relative to the current brightness of each light (e.g., "dim the office by 20%" is relative -20). Relative changes are clamped so lights never turn off, 0 in absolute mode turns them off. If the target is ambiguous the candidates are returned instead, ask the user to pick one',
+    brightnessSchema,
+    async (params, { authInfo }) =>
+      toToolResult("set_brightness", () => setBrightness(params), authInfo),
+  );
+
+  server.tool(
+    "set_light_color",
+    "Set the color, white color temperature or effect of the lights in an area, or of a single light. Provide exactly one of color, kelvin or effect",
+    lightColorSchema,
+    async (params, { authInfo }) =>
+      toToolResult("set_light_color", () => setLightColor(params), authInfo),
+  );
+
+  server.tool(
+    "control_floor_lights",
+    "Turn all lights on a floor in Home Assistant on or off (e.g., everything upstairs). If the floor is ambiguous the candidates are returned instead, ask the user to pick one",
+    floorLightControlSchema,
+    async (params, { authInfo }) =>
+      toToolResult(
+        "control_floor_lights",
+        () => controlFloorLights(params),
+        authInfo,
+      ),
+  );
+
+  server.tool(
+    "save_scene",
+    "Save the current on/off state, brightness and color of every light in an area as a named scene, so it can be restored later",
+    saveSceneSchema,
+    async (params, { authInfo }) =>
+      toToolResult("save_scene", () => saveScene(params), authInfo),
+  );
+
+  server.tool(
+    "apply_scene",
+    "Restore the lights of an area to a previously saved scene, or apply a scene from Home Assistant",
+    applySceneSchema,
+    async (params, { authInfo }) =>
+      toToolResult("apply_scene", () => applyScene(params), authInfo),
+  );
+
+  server.tool(
+    "list_scenes",
+    "List the saved scenes with the light states they restore, and the scenes in Home Assistant with the entities they set",
+    listScenesSchema,
+    async (params, { authInfo }) =>
+      toToolResult("list_scenes", () => listScenes(params), authInfo),
+  );
+
+  server.tool(
+    "schedule_action",
+    "Turn lights on or off later or on a schedule (e.g., in 30 minutes, at 07:00, every weekday at 18:30). Provide exactly one of delayMinutes or time. If the target is ambiguous the candidates are returned instead, ask the user to pick one",
+    scheduleActionSchema,
+    async (params, { authInfo }) =>
+      toToolResult("schedule_action", () => scheduleAction(params), authInfo),
+  );
+
+  server.tool(
+    "list_scheduled_actions",
+    "List the pending scheduled light actions, the next due first",
+    {},
+    async (_params, { authInfo }) =>
+      toToolResult(
+        "list_scheduled_actions",
+        () => listScheduledActions(),
+        authInfo,
+      ),
+  );
+
+  server.tool(
+    "cancel_scheduled_action",
+    "Cancel a scheduled light action by its ID",
+    cancelScheduledActionSchema,
+    async (params, { authInfo }) =>
+      toToolResult(
+        "cancel_scheduled_action",
+        () => cancelScheduledAction(params),
+        authInfo,
+      ),
+  );
+
+  server.tool(
+    "get_recent_actions",
+    "List the most recent actions, newest first: which tool asked, the commands sent, the previous state of the affected lights and the outcome",
+    recentActionsSchema,
+    async (params, { authInfo }) =>
+      toToolResult(
+        "get_recent_actions",
+        () => getRecentActions(params),
+        authInfo,
+      ),
+  );
+
+  server.tool(
+    "undo",
+    'Undo an action by restoring the lights it changed to their previous state (e.g., when the user says "undo that")',
+    undoSchema,
+    async (params, { authInfo }) =>
+      toToolResult("undo", () => undo(params), authInfo),
+  );
+
+  server.tool(
+    "list_areas",
+    "List the areas with how many lights they have, how many are on, their average brightness and temperature",
+    {},
+    async (_params, { authInfo }) =>
+      toToolResult("list_areas", () => listAreas(), authInfo),
+  );
+
+  server.tool(
+    "get_area_state",
+    "Get the state of an area and its lights: on/off, brightness percentage, color and availability",
+    areaStateSchema,
+    async (params, { authInfo }) =>
+      toToolResult("get_area_state", () => getAreaState(params), authInfo),
+  );
+
+  server.tool(
+    "get_light_state",
+    "Get the state of a single light: on/off, brightness percentage, color and availability",
+    lightStateSchema,
+    async (params, { authInfo }) =>
+      toToolResult("get_light_state", () => getLightState(params), authInfo),
+  );
+
+  server.tool(
+    "find_lights",
+    'Find lights by state, area or name across all areas (e.g., "which lights are still on?"). Check the current state with it before acting',
+    findLightsSchema,
+    async (params, { authInfo }) =>
+      toToolResult("find_lights", () => findLights(params), authInfo),
+  );
+
+  server.tool(
+    "get_area_devices",
+    "Get the current state of every device in an area: lights, switches, fans, covers (e.g. garage doors), thermostats, media players, locks and sensors (e.g. temperature)",
+    areaDevicesSchema,
+    async (params, { authInfo }) =>
+      toToolResult("get_area_devices", () => getAreaDevices(params), authInfo),
+  );
+
+  server.tool(
+    "control_device",
+    "Control a switch, fan, cover, thermostat, media player or lock in Home Assistant",
+    deviceControlSchema,
+    async (params, { authInfo }) =>
+      toToolResult("control_device", () => controlDevice(params), authInfo),
+  );
+
+  registerResources(server, authInfo);
+  return server;
+}
+
+// Resources: the live state of the areas and lights, for clients that show or attach them
+const AREAS_URI = "hass://areas";
+const getAreaUri = (areaId: string) =>
+  `hass://areas/${encodeURIComponent(areaId)}`;
+const getLightUri = (entityId: string) =>
+  `hass://lights/${encodeURIComponent(entityId)}`;
+
+function toResourceResult(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data),
+      },
+    ],
+  };
+}
+
+// Template variables arrive as they appear in the URI
+function getUriVariable(value: string | string[]) {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Reads a resource with the permissions of the client that asked, like toToolResult for tools
+ */
+function readAs<T>(authInfo: AuthInfo | undefined, read: () => T) {
+  return policy.runAs(getPolicyClient(authInfo?.clientId), read);
+}
+
+/**
+ * Checks a resource URI like its read handler does, e.g. before subscribing to it
+ * @throws {PolicyDeniedError} if the client may not read it
+ */
+function assertCanReadResource(uri: string) {
+  if (uri === AREAS_URI) {
+    return;
+  }
+  const areaMatch = /^hass:\/\/areas\/([^/]+)$/.exec(uri);
+  if (areaMatch) {
+    policy.assertCanRead([decodeURIComponent(areaMatch[1])]);
+    return;
+  }
+  const lightMatch = /^hass:\/\/lights\/([^/]+)$/.exec(uri);
+  if (lightMatch) {
+    const entityId = decodeURIComponent(lightMatch[1]);
+    policy.assertCanRead([], getPolicyEntities(entityId));
+    return;
+  }
+  throw new Error(`Resource not found: ${uri}`);
+}
+
+function getEntityResourceUris(entity: Entity) {
+  const uris = [AREAS_URI, getAreaUri(entity.areaId)];
+  if (entity.domain === EntityTypes.light) {
+    uris.push(getLightUri(entity.entityId));
+  }
+  return uris;
+}
+
+/**
+ * Registers the resources and notifies the client of changes to the ones it subscribed to, until the server closes
+ * @param sessionAuthInfo - the client the server was created for
+ */
+function registerResources(server: McpServer, sessionAuthInfo?: AuthInfo) {
+  server.resource(
+    "areas",
+    AREAS_URI,
+    {
+      description:
+        "Every accessible area with its light counts, average brightness and temperature",
+      mimeType: "application/json",
+    },
+    async (uri, { authInfo }) =>
+      readAs(authInfo, () =>
+        toResourceResult(uri, getAllowedAreas().map(getAreaSummary)),
+      ),
+  );
+
+  server.resource(
+    "area",
+    new ResourceTemplate("hass://areas/{areaId}", {
+      list: ({ authInfo }) =>
+        readAs(authInfo, () => ({
+          resources: getAllowedAreas().map((area) => ({
+            uri: getAreaUri(area.id),
+            name: area.name,
+            mimeType: "application/json",
+          })),
+        })),
+      complete: {
+        areaId: (value) =>
+          readAs(sessionAuthInfo, () =>
+            getAllowedAreas()
+              .filter((area) => policy.canRead([area.id]))
+              .map((area) => area.id)
+              .filter((id) => id.startsWith(value)),
+          ),
+      },
+    }),
+    {
+      description: "The current state of every device in an area",
+      mimeType: "application/json",
+    },
+    async (uri, variables, { authInfo }) =>
+      readAs(authInfo, () => {
+        const areaId = getUriVariable(variables.areaId);
+        policy.assertCanRead([areaId]);
+        return toResourceResult(uri, {
+          ...getAreaSummary(dataManager.getArea(areaId)),
+          devices: dataManager
+            .getEntities(areaId)
+            .filter((entity) => policy.isEntityAllowed(entity.entityId)),
+        });
+      }),
+  );
+
+  server.resource(
+    "light",
+    new ResourceTemplate("hass://lights/{entityId}", {
+      list: ({ authInfo }) =>
+        readAs(authInfo, () => ({
+          resources: getAllowedLights().map((light) => ({
+            uri: getLightUri(light.entityId),
+            name: `${light.name} (${light.areaName})`,
+            mimeType: "application/json",
+          })),
+        })),
+      complete: {
+        entityId: (value) =>
+          readAs(sessionAuthInfo, () =>
+            getAllowedLights()
+              .filter((light) => policy.canRead([], [light]))
+              .map((light) => light.entityId)
+              .filter((id) => id.startsWith(value)),
+          ),
+      },
+    }),
+    {
+      description:
+        "The current state of a light: on or off, brightness, color and effect",
+      mimeType: "application/json",
+    },
+    async (uri, variables, { authInfo }) =>
+      readAs(authInfo, () => {
+        const light = getReadableLight(getUriVariable(variables.entityId));
+        return toResourceResult(uri, light);
+      }),
+  );
+
+  // Subscribed resources are told when they change, several changes in quick succession are sent once
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+  const subscribedResourceUris = new Set<string>();
+  const changedResourceUris = new Set<string>();
+  let resourceUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  server.server.setRequestHandler(
+    SubscribeRequestSchema,
+    async (request, { authInfo }) => {
+      readAs(authInfo, () => assertCanReadResource(request.params.uri));
+      subscribedResourceUris.add(request.params.uri);
+      return {};
+    },
+  );
+
+  // Permissions can change after subscribing, e.g. a config reload or a client's token removed
+  function canReadResource(uri: string) {
+    try {
+      readAs(sessionAuthInfo, () => assertCanReadResource(uri));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribedResourceUris.delete(request.params.uri);
+    return {};
+  });
+
+  function notifyResourcesUpdated(uris: string[]) {
+    for (const uri of uris) {
+      if (subscribedResourceUris.has(uri)) {
+        changedResourceUris.add(uri);
+      }
+    }
+    if (changedResourceUris.size === 0 || resourceUpdateTimeout) {
+      return;
+    }
+    resourceUpdateTimeout = setTimeout(() => {
+      resourceUpdateTimeout = null;
+      for (const uri of changedResourceUris) {
+        if (!canReadResource(uri)) {
+          continue;
+        }
+        server.server
+          .sendResourceUpdated({ uri })
+          .catch((error) =>
+            console.error(`Failed to send update for ${uri}:`, error),
+          );
+      }
+      changedResourceUris.clear();
+    }, 100);
+  }
+
+  function notifyResourceListChanged() {
+    server.server
+      .sendResourceListChanged()
+      .catch((error) =>
+        console.error("Failed to send resource list change:", error),
+      );
+  }
+
+  const onEntityChanged = ({
+    before,
+    after,
+  }: {
+    before: Entity | null;
+    after: Entity | null;
+  }) => {
+    const entities = [before, after].filter(
+      (entity): entity is Entity => entity !== null,
+    );
+    notifyResourcesUpdated(entities.flatMap(getEntityResourceUris));
+    // Lights are listed as resources of their own
+    if (
+      (before === null || after === null) &&
+      entities[0].domain === EntityTypes.light
+    ) {
+      notifyResourceListChanged();
+    }
+  };
+  const onAreaChanged = (area: Area) => {
+    notifyResourcesUpdated([AREAS_URI, getAreaUri(area.id)]);
+    notifyResourceListChanged();
+  };
+  // A config reload can change the exposed areas and what the policy allows
+  const onSynced = () => {
+    notifyResourcesUpdated([AREAS_URI]);
+    notifyResourceListChanged();
+  };
+  dataManager.eventEmitter.on("entityChanged", onEntityChanged);
+  dataManager.eventEmitter.on("areaAdded", onAreaChanged);
+  dataManager.eventEmitter.on("areaRemoved", onAreaChanged);
+  dataManager.eventEmitter.on("synced", onSynced);
+  server.server.onclose = () => {
+    dataManager.eventEmitter.off("entityChanged", onEntityChanged);
+    dataManager.eventEmitter.off("areaAdded", onAreaChanged);
+    dataManager.eventEmitter.off("areaRemoved", onAreaChanged);
+    dataManager.eventEmitter.off("synced", onSynced);
+    if (resourceUpdateTimeout) {
+      clearTimeout(resourceUpdateTimeout);
+    }
+  };
+}
+
+// Create transport and start server
+const { transport, port } = getTransportOptions();
+const MAX_HTTP_SESSIONS = 100;
+let closeServer: () => Promise<void>;
+if (transport === "http") {
+  // Anyone who can reach the port could control the lights, so every request needs a client's token
+  if (tokenStore.getClients().length === 0) {
+    throw new Error(
+      "No client can connect over HTTP, add one with: bun run token add <client-id>",
+    );
+  }
+  // One process and one Home Assistant connection for every client, each session listens for resource
+  // changes. Keeping a limit on top of that still warns about listeners that are never removed.
+  dataManager.eventEmitter.setMaxListeners(
+    MAX_HTTP_SESSIONS + dataManager.eventEmitter.getMaxListeners(),
+  );
+  const httpServer = new McpHttpServer(createServer, {
+    port,
+    maxSessions: MAX_HTTP_SESSIONS,
+    authenticate: (token) => {
+      const client = tokenStore.authenticate(token);
+      return client && { token, clientId: client.id, scopes: [] };
+    },
+  });
+  await httpServer.start();
+  closeServer = () => httpServer.close();
+  console.log(
+    `🏠 Home Assistant MCP Server listening on http://localhost:${port}/mcp (SSE at /sse)`,
+  );
+} else {
+  const server = createServer();
+  await server.connect(new StdioServerTransport());
+  closeServer = () => server.close();
+  console.log("🏠 Home Assistant MCP Server Started!");
+}
 console.log(
   "Available areas:",
-  dashboardConfigs.map((config) => config.areaId),
+  dataManager.getExposedAreas().map((area) => area.id),
 );
+
+async function shutdown(signal: string) {
+  console.error(`Received ${signal}, shutting down`);
+  scheduler.stop();
+  try {
+    await closeServer();
+    await dataManager.cleanup();
+  } catch (error) {
+    console.error("Failed to shut down cleanly:", error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+process.once("SIGINT", () => shutdown("SIGINT"));
+process.once("SIGTERM", () => shutdown("SIGTERM"));
@@ -0,0 +1,222 @@
+/* Keeps the MCP clients that may connect over HTTP, with a hash of their bearer token and what they may do, in a JSON file */
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { getTokenStorePath } from "./data-manager/config";
+
+const storedClientSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[a-z0-9_-]+$/,
+        "Use lowercase letters, digits, dashes and underscores",
+      ),
+    tokenHash: z.string().regex(/^[0-9a-f]{64}$/, "Expected a SHA-256 hash"), // the token itself is only shown once
+    createdAt: z.coerce.date(),
+    allowAreas: z.array(z.string().min(1)).optional(), // leave out to allow every area the config allows
+    denyAreas: z.array(z.string().min(1)).default([]),
+    readOnly: z.boolean().default(false),
+  })
+  .strict();
+
+const tokenFileSchema = z.object({
+  clients: z.array(storedClientSchema),
+});
+
+export type StoredClient = z.infer<typeof storedClientSchema>;
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class TokenStore {
+  private path: string;
+  private clients: StoredClient[] = [];
+  private loadedAt: number | null = null; // modification time of the file when it was read
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Reads the file again if it changed, so clients added or removed while the server runs take effect
+   */
+  getClients(): StoredClient[] {
+    this.reload();
+    return this.clients;
+  }
+
+  getClient(id: string): StoredClient | null {
+    return this.getClients().find((client) => client.id === id) ?? null;
+  }
+
+  /**
+   * @returns {StoredClient | null} the client the token belongs to, null if it belongs to none
+   */
+  authenticate(token: string): StoredClient | null {
+    const tokenHash = Buffer.from(hashToken(token), "hex");
+    return (
+      this.getClients().find((client) =>
+        timingSafeEqual(Buffer.from(client.tokenHash, "hex"), tokenHash),
+      ) ?? null
+    );
+  }
+
+  /**
+   * @returns the new client and its token, only its hash is stored
+   * @throws {Error} if the ID is taken or invalid
+   */
+  addClient({
+    id,
+    allowAreas,
+    denyAreas = [],
+    readOnly = false,
+  }: Pick<StoredClient, "id" | "allowAreas"> &
+    Partial<Pick<StoredClient, "denyAreas" | "readOnly">>) {
+    if (this.getClient(id)) {
+      throw new Error(`Client already exists: ${id}`);
+    }
+    const token = randomBytes(32).toString("base64url");
+    const result = storedClientSchema.safeParse({
+      id,
+      tokenHash: hashToken(token),
+      createdAt: new Date(),
+      allowAreas,
+      denyAreas,
+      readOnly,
+    });
+    if (!result.success) {
+      const issues = result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      );
+      throw new Error(`Invalid client ${id}, ${issues.join(", ")}`);
+    }
+    this.clients = [...this.clients, result.data];
+    this.save();
+    return { client: result.data, token };
+  }
+
+  /**
+   * @returns {StoredClient} the removed client, its token stops working right away
+   */
+  removeClient(id: string): StoredClient {
+    const client = this.getClient(id);
+    if (!client) {
+      throw new Error(`Client not found: ${id}`);
+    }
+    this.clients = this.clients.filter((c) => c !== client);
+    this.save();
+    return client;
+  }
+
+  private reload() {
+    let modifiedAt: number;
+    try {
+      modifiedAt = statSync(this.path).mtimeMs;
+    } catch (error) {
+      // No client has been added yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.clients = [];
+        this.loadedAt = null;
+        return;
+      }
+      throw error;
+    }
+    if (modifiedAt === this.loadedAt) {
+      return;
+    }
+    const result = tokenFileSchema.safeParse(
+      JSON.parse(readFileSync(this.path, "utf8")),
+    );
+    if (!result.success) {
+      throw new Error(
+        `Invalid token store ${this.path}: ${result.error.message}`,
+      );
+    }
+    this.clients = result.data.clients;
+    this.loadedAt = modifiedAt;
+  }
+
+  /**
+   * Writes to a temporary file first so a crash can't leave half a file behind, readable only by the owner
+   */
+  private save() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(
+      temporaryPath,
+      JSON.stringify({ clients: this.clients }, null, 2),
+      { mode: 0o600 },
+    );
+    renameSync(temporaryPath, this.path);
+    this.loadedAt = statSync(this.path).mtimeMs;
+  }
+}
+
+// Run standalone: bun run token add <client-id> [--areas office,kitchen] [--deny-areas garage] [--read-only]
+if (import.meta.main) {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      areas: { type: "string" },
+      "deny-areas": { type: "string" },
+      "read-only": { type: "boolean" },
+      tokens: { type: "string" },
+    },
+  });
+  const toList = (value: string | undefined) =>
+    value
+      ?.split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  const store = new TokenStore(
+    getTokenStorePath(
+      fileURLToPath(new URL("../tokens.json", import.meta.url)),
+    ),
+  );
+  const [command, id] = positionals;
+  try {
+    if (command === "add" && id) {
+      const { client, token } = store.addClient({
+        id,
+        allowAreas: toList(values.areas),
+        denyAreas: toList(values["deny-areas"]),
+        readOnly: values["read-only"],
+      });
+      console.log(
+        `Added client ${client.id}, use this bearer token (it is not shown again):\n${token}`,
+      );
+    } else if (command === "remove" && id) {
+      store.removeClient(id);
+      console.log(`Removed client ${id}`);
+    } else if (command === "list") {
+      for (const client of store.getClients()) {
+        const areas = client.allowAreas?.join(", ") ?? "every area";
+        const denied = client.denyAreas.length
+          ? `, except ${client.denyAreas.join(", ")}`
+          : "";
+        console.log(
+          `${client.id}: ${areas}${denied}${client.readOnly ? ", read-only" : ""} (added ${client.createdAt.toISOString()})`,
+        );
+      }
+    } else {
+      console.error(
+        "Usage: bun run token add <client-id> [--areas a,b] [--deny-areas c] [--read-only] | remove <client-id> | list",
+      );
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}